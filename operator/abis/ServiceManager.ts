@@ -106,6 +106,13 @@ export const ServiceManagerABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "currentBatchId",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256", internalType: "uint256" }],
+    stateMutability: "view",
+  },
   {
     type: "function",
     name: "deregisterOperatorFromAVS",
@@ -113,6 +120,27 @@ export const ServiceManagerABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "getLoanBatchHash",
+    inputs: [
+      { name: "batchId", type: "uint256", internalType: "uint256" },
+      {
+        name: "matches",
+        type: "tuple[]",
+        internalType: "struct IDebtHook.LoanMatch[]",
+        components: [
+          { name: "lender", type: "address", internalType: "address" },
+          { name: "borrower", type: "address", internalType: "address" },
+          { name: "principalAmount", type: "uint256", internalType: "uint256" },
+          { name: "interestRateBips", type: "uint256", internalType: "uint256" },
+          { name: "maturityTimestamp", type: "uint256", internalType: "uint256" },
+        ],
+      },
+    ],
+    outputs: [{ name: "", type: "bytes32", internalType: "bytes32" }],
+    stateMutability: "pure",
+  },
   {
     type: "function",
     name: "getMessageHash",
@@ -175,6 +203,13 @@ export const ServiceManagerABI = [
     outputs: [{ name: "", type: "address", internalType: "address" }],
     stateMutability: "view",
   },
+  {
+    type: "function",
+    name: "isTaskResponded",
+    inputs: [{ name: "taskId", type: "uint32", internalType: "uint32" }],
+    outputs: [{ name: "", type: "bool", internalType: "bool" }],
+    stateMutability: "view",
+  },
   {
     type: "function",
     name: "latestTaskNum",
@@ -341,6 +376,53 @@ export const ServiceManagerABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "function",
+    name: "respondToLoanBatch",
+    inputs: [
+      {
+        name: "tasks",
+        type: "tuple[]",
+        internalType: "struct DebtOrderServiceManager.LoanOrderTask[]",
+        components: [
+          { name: "isLender", type: "bool", internalType: "bool" },
+          { name: "principalAmount", type: "uint256", internalType: "uint256" },
+          { name: "interestRateBips", type: "uint256", internalType: "uint256" },
+          { name: "maturityTimestamp", type: "uint256", internalType: "uint256" },
+          { name: "collateralRequired", type: "uint256", internalType: "uint256" },
+          { name: "sender", type: "address", internalType: "address" },
+          { name: "orderId", type: "bytes32", internalType: "bytes32" },
+          { name: "taskCreatedBlock", type: "uint32", internalType: "uint32" },
+          { name: "taskId", type: "uint32", internalType: "uint32" },
+          { name: "minPrincipal", type: "uint256", internalType: "uint256" },
+          { name: "maxPrincipal", type: "uint256", internalType: "uint256" },
+          { name: "minRate", type: "uint256", internalType: "uint256" },
+          { name: "maxRate", type: "uint256", internalType: "uint256" },
+          { name: "expiry", type: "uint256", internalType: "uint256" },
+        ],
+      },
+      {
+        name: "referenceTaskIndices",
+        type: "uint32[]",
+        internalType: "uint32[]",
+      },
+      {
+        name: "matches",
+        type: "tuple[]",
+        internalType: "struct IDebtHook.LoanMatch[]",
+        components: [
+          { name: "lender", type: "address", internalType: "address" },
+          { name: "borrower", type: "address", internalType: "address" },
+          { name: "principalAmount", type: "uint256", internalType: "uint256" },
+          { name: "interestRateBips", type: "uint256", internalType: "uint256" },
+          { name: "maturityTimestamp", type: "uint256", internalType: "uint256" },
+        ],
+      },
+      { name: "signature", type: "bytes", internalType: "bytes" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
   {
     type: "function",
     name: "rewardsInitiator",
@@ -415,6 +497,25 @@ export const ServiceManagerABI = [
     outputs: [],
     stateMutability: "nonpayable",
   },
+  {
+    type: "event",
+    name: "BatchExecuted",
+    inputs: [
+      {
+        name: "batchId",
+        type: "uint256",
+        indexed: true,
+        internalType: "uint256",
+      },
+      {
+        name: "matchCount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
   {
     type: "event",
     name: "BatchResponse",
@@ -447,6 +548,60 @@ export const ServiceManagerABI = [
     ],
     anonymous: false,
   },
+  {
+    type: "event",
+    name: "LoanBatchResponse",
+    inputs: [
+      {
+        name: "referenceTaskIndices",
+        type: "uint32[]",
+        indexed: true,
+        internalType: "uint32[]",
+      },
+      {
+        name: "operator",
+        type: "address",
+        indexed: false,
+        internalType: "address",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "NewLoanOrderCreated",
+    inputs: [
+      {
+        name: "taskIndex",
+        type: "uint32",
+        indexed: true,
+        internalType: "uint32",
+      },
+      {
+        name: "task",
+        type: "tuple",
+        indexed: false,
+        internalType: "struct DebtOrderServiceManager.LoanOrderTask",
+        components: [
+          { name: "isLender", type: "bool", internalType: "bool" },
+          { name: "principalAmount", type: "uint256", internalType: "uint256" },
+          { name: "interestRateBips", type: "uint256", internalType: "uint256" },
+          { name: "maturityTimestamp", type: "uint256", internalType: "uint256" },
+          { name: "collateralRequired", type: "uint256", internalType: "uint256" },
+          { name: "sender", type: "address", internalType: "address" },
+          { name: "orderId", type: "bytes32", internalType: "bytes32" },
+          { name: "taskCreatedBlock", type: "uint32", internalType: "uint32" },
+          { name: "taskId", type: "uint32", internalType: "uint32" },
+          { name: "minPrincipal", type: "uint256", internalType: "uint256" },
+          { name: "maxPrincipal", type: "uint256", internalType: "uint256" },
+          { name: "minRate", type: "uint256", internalType: "uint256" },
+          { name: "maxRate", type: "uint256", internalType: "uint256" },
+          { name: "expiry", type: "uint256", internalType: "uint256" },
+        ],
+      },
+    ],
+    anonymous: false,
+  },
   {
     type: "event",
     name: "NewTaskCreated",
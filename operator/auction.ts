@@ -0,0 +1,130 @@
+import { borrowerCeiling, lenderFloor, limitRate } from "./constraints";
+import { Mathb } from "./math";
+import { compareBorrowers, compareLenders, crossSortedLoanOrders, summarizeCrossing } from "./crossing";
+import { singleTaskMatchings, summarizeLoanMatchings } from "./matching";
+import { DEFAULT_SURPLUS_POLICY, shareSurplus } from "./pricing";
+import { LoanMatchingResult, LoanTask, SurplusPolicy } from "./utils";
+
+export type ClearingPoint = {
+  rate: bigint;           // uniform clearing rate in basis points
+  supply: bigint;         // lender principal offered at or below the rate
+  demand: bigint;         // borrower principal bid at or above the rate
+  volume: bigint;         // principal that clears at the rate
+};
+
+// Find the rate that maximizes cleared volume on the aggregated supply and demand curves.
+//
+// Supply only grows and demand only shrinks as the rate rises, so the rates that
+// maximize min(supply, demand) form one contiguous range, and the surplus policy
+// decides where inside that range the rate is placed.
+export function computeClearingPoint(
+  tasks: LoanTask[],
+  surplusPolicy: SurplusPolicy = DEFAULT_SURPLUS_POLICY
+): ClearingPoint | null {
+  const lenders = tasks.filter(task => task.isLender).sort(byRate);
+  const borrowers = tasks.filter(task => !task.isLender).sort(byRate);
+  if (lenders.length === 0 || borrowers.length === 0) return null;
+
+  const candidates = [...new Set(tasks.map(limitRate))]
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const totalDemand = borrowers.reduce((sum, borrower) => sum + borrower.principalAmount, BigInt(0));
+
+  let bestVolume = BigInt(0);
+  let lowestRate: bigint | null = null;
+  let highestRate: bigint | null = null;
+
+  // Sweep the candidate rates upwards, accumulating both curves as we go
+  let supply = BigInt(0);
+  let pricedOut = BigInt(0);
+  let lenderIndex = 0;
+  let borrowerIndex = 0;
+
+  for (const rate of candidates) {
+    while (lenderIndex < lenders.length && lenderFloor(lenders[lenderIndex]) <= rate) {
+      supply += lenders[lenderIndex++].principalAmount;
+    }
+    while (borrowerIndex < borrowers.length && borrowerCeiling(borrowers[borrowerIndex]) < rate) {
+      pricedOut += borrowers[borrowerIndex++].principalAmount;
+    }
+
+    const volume = Mathb.min(supply, totalDemand - pricedOut);
+    if (volume === BigInt(0)) continue;
+
+    if (volume > bestVolume) {
+      bestVolume = volume;
+      lowestRate = rate;
+      highestRate = rate;
+    } else if (volume === bestVolume) {
+      highestRate = rate;
+    }
+  }
+
+  if (lowestRate === null || highestRate === null) return null;
+
+  const rate = shareSurplus(
+    lowestRate,
+    highestRate,
+    surplusPolicy,
+    supplyAt(lenders, highestRate),
+    demandAt(borrowers, lowestRate)
+  );
+  const supplyAtRate = supplyAt(lenders, rate);
+  const demandAtRate = demandAt(borrowers, rate);
+  return {
+    rate,
+    supply: supplyAtRate,
+    demand: demandAtRate,
+    volume: Mathb.min(supplyAtRate, demandAtRate),
+  };
+}
+
+// Call auction for a single maturity group.
+//
+// Every lender asking at most the clearing rate and every borrower bidding at
+// least it fills at that one rate. The short side fills completely; the long
+// side fills in price-time priority, so only its marginal orders are rationed.
+export function clearLoanAuction(
+  tasks: LoanTask[],
+  surplusPolicy: SurplusPolicy = DEFAULT_SURPLUS_POLICY
+): LoanMatchingResult {
+  const point = computeClearingPoint(tasks, surplusPolicy);
+  if (point === null) {
+    return summarizeLoanMatchings(tasks, singleTaskMatchings(tasks));
+  }
+
+  const lenders = tasks
+    .filter(task => task.isLender && lenderFloor(task) <= point.rate)
+    .sort(compareLenders);
+  const borrowers = tasks
+    .filter(task => !task.isLender && borrowerCeiling(task) >= point.rate)
+    .sort(compareBorrowers);
+
+  const fills = crossSortedLoanOrders(lenders, borrowers, () => point.rate);
+  const result = summarizeCrossing(tasks, fills);
+  result.clearingRate = point.rate;
+  result.marginalOrders = [
+    ...atLimit(lenders, lenderFloor(lenders[lenders.length - 1])),
+    ...atLimit(borrowers, borrowerCeiling(borrowers[borrowers.length - 1])),
+  ];
+  return result;
+}
+
+function supplyAt(lenders: LoanTask[], rate: bigint): bigint {
+  return lenders
+    .filter(lender => lenderFloor(lender) <= rate)
+    .reduce((sum, lender) => sum + lender.principalAmount, BigInt(0));
+}
+
+function demandAt(borrowers: LoanTask[], rate: bigint): bigint {
+  return borrowers
+    .filter(borrower => borrowerCeiling(borrower) >= rate)
+    .reduce((sum, borrower) => sum + borrower.principalAmount, BigInt(0));
+}
+
+function byRate(a: LoanTask, b: LoanTask): number {
+  return limitRate(a) < limitRate(b) ? -1 : limitRate(a) > limitRate(b) ? 1 : 0;
+}
+
+function atLimit(tasks: LoanTask[], rate: bigint): LoanTask[] {
+  return tasks.filter(task => limitRate(task) === rate);
+}
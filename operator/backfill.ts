@@ -0,0 +1,57 @@
+import { fromLoanOrderTask, matchesTaskHash } from "./codec";
+import { LogSource } from "./reorg";
+import { LoanTask, serviceManager } from "./utils";
+
+// A loan order found in the logs, and what the contract says about it now
+export type BackfilledOrder = {
+  task: LoanTask;
+  source: LogSource;
+  responded: boolean;     // isTaskResponded: some operator already answered it
+  hashMatches: boolean;   // the decoded task hashes to allTaskHashes
+};
+
+// Read NewLoanOrderCreated logs from `fromBlock` to `toBlock` in chunks of at
+// most `chunkBlocks` blocks, and hand each chunk's orders to `onChunk` with the
+// last block it covered. A chunk the RPC refuses, typically for returning too
+// many logs, is retried at half the size until it is down to a single block.
+export async function backfillLoanOrders(
+  fromBlock: bigint,
+  toBlock: bigint,
+  chunkBlocks: bigint,
+  onChunk: (orders: BackfilledOrder[], lastBlock: bigint) => Promise<void> | void
+): Promise<void> {
+  let chunk = chunkBlocks;
+  let start = fromBlock;
+
+  while (start <= toBlock) {
+    const end = start + chunk - BigInt(1) < toBlock ? start + chunk - BigInt(1) : toBlock;
+
+    let logs;
+    try {
+      logs = await serviceManager.getEvents.NewLoanOrderCreated({}, { fromBlock: start, toBlock: end });
+    } catch (error) {
+      if (chunk === BigInt(1)) throw error;
+      chunk = chunk / BigInt(2);
+      console.warn(`Could not read logs for blocks ${start}-${end}, retrying ${chunk} blocks at a time`);
+      continue;
+    }
+
+    const orders: BackfilledOrder[] = [];
+    for (const log of logs) {
+      const task = fromLoanOrderTask(log.args.task!);
+      const [responded, taskHash] = await Promise.all([
+        serviceManager.read.isTaskResponded([task.taskId]),
+        serviceManager.read.allTaskHashes([task.taskId]),
+      ]);
+      orders.push({
+        task,
+        source: { blockNumber: log.blockNumber, blockHash: log.blockHash },
+        responded,
+        hashMatches: matchesTaskHash(task, taskHash),
+      });
+    }
+
+    await onChunk(orders, end);
+    start = end + BigInt(1);
+  }
+}
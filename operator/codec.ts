@@ -0,0 +1,112 @@
+import { encodeAbiParameters, keccak256 } from "viem";
+import { operatorConfig } from "./config";
+import { DEFAULT_LOAN_TOKEN } from "./tokens";
+import { LoanTask } from "./utils";
+
+// DebtOrderServiceManager.LoanOrderTask exactly as the contract stores and
+// hashes it. Field order matters: it is the abi.encode order.
+export type LoanOrderTask = {
+  isLender: boolean;
+  principalAmount: bigint;
+  interestRateBips: bigint;
+  maturityTimestamp: bigint;
+  collateralRequired: bigint;
+  sender: `0x${string}`;
+  orderId: `0x${string}`;
+  taskCreatedBlock: number;
+  taskId: number;
+  minPrincipal: bigint;
+  maxPrincipal: bigint;
+  minRate: bigint;
+  maxRate: bigint;
+  expiry: bigint;
+};
+
+const loanOrderTaskParameter = {
+  type: "tuple",
+  components: [
+    { name: "isLender", type: "bool" },
+    { name: "principalAmount", type: "uint256" },
+    { name: "interestRateBips", type: "uint256" },
+    { name: "maturityTimestamp", type: "uint256" },
+    { name: "collateralRequired", type: "uint256" },
+    { name: "sender", type: "address" },
+    { name: "orderId", type: "bytes32" },
+    { name: "taskCreatedBlock", type: "uint32" },
+    { name: "taskId", type: "uint32" },
+    { name: "minPrincipal", type: "uint256" },
+    { name: "maxPrincipal", type: "uint256" },
+    { name: "minRate", type: "uint256" },
+    { name: "maxRate", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+} as const;
+
+// Default collateral ratio for orders that do not state one (150%)
+const DEFAULT_COLLATERAL_RATIO = BigInt(15000);
+
+// Build the operator's LoanTask from a task decoded from NewLoanOrderCreated.
+// The on-chain task has no token, maturity options or collateral ratios, so
+// those take the operator's defaults: the default loan token, the task's own
+// maturity, 150% collateral and, for lenders, the minimum ratio configured for
+// the sender.
+export function fromLoanOrderTask(task: LoanOrderTask): LoanTask {
+  return {
+    isLender: task.isLender,
+    principalAmount: task.principalAmount,
+    interestRateBips: task.interestRateBips,
+    maturityTimestamp: task.maturityTimestamp,
+    collateralRequired: task.collateralRequired,
+    sender: task.sender,
+    orderId: task.orderId,
+    orderData: {
+      token: DEFAULT_LOAN_TOKEN.address,
+      minPrincipal: task.minPrincipal,
+      maxPrincipal: task.maxPrincipal,
+      minRate: task.minRate,
+      maxRate: task.maxRate,
+      maturityOptions: [task.maturityTimestamp],
+      collateralRatio: DEFAULT_COLLATERAL_RATIO,
+      minCollateralRatio: task.isLender
+        ? operatorConfig.lenderMinCollateralRatios.get(task.sender.toLowerCase()) ?? BigInt(0)
+        : BigInt(0),
+      expiry: task.expiry,
+      nonce: BigInt(0),
+    },
+    taskCreatedBlock: task.taskCreatedBlock,
+    taskId: task.taskId,
+    matchedAmount: null,
+    effectiveRate: null,
+  };
+}
+
+// Flatten a LoanTask back into the struct respondToLoanBatch expects. The task
+// must be the one created on-chain, not a copy resized or re-timed for matching.
+export function toLoanOrderTask(task: LoanTask): LoanOrderTask {
+  return {
+    isLender: task.isLender,
+    principalAmount: task.principalAmount,
+    interestRateBips: task.interestRateBips,
+    maturityTimestamp: task.maturityTimestamp,
+    collateralRequired: task.collateralRequired ?? BigInt(0),
+    sender: task.sender,
+    orderId: task.orderId,
+    taskCreatedBlock: task.taskCreatedBlock,
+    taskId: task.taskId,
+    minPrincipal: task.orderData.minPrincipal,
+    maxPrincipal: task.orderData.maxPrincipal,
+    minRate: task.orderData.minRate,
+    maxRate: task.orderData.maxRate,
+    expiry: task.orderData.expiry,
+  };
+}
+
+// keccak256(abi.encode(task)), as stored in allTaskHashes
+export function hashLoanOrderTask(task: LoanOrderTask): `0x${string}` {
+  return keccak256(encodeAbiParameters([loanOrderTaskParameter], [task]));
+}
+
+// Whether a task would pass respondToLoanBatch's "Task not found" check
+export function matchesTaskHash(task: LoanTask, taskHash: `0x${string}`): boolean {
+  return hashLoanOrderTask(toLoanOrderTask(task)) === taskHash;
+}
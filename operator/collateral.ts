@@ -0,0 +1,160 @@
+import { parseUnits } from "viem";
+import { Mathb } from "./math";
+import { DEFAULT_LOAN_TOKEN, TokenInfo } from "./tokens";
+import { LoanFeasibility, LoanTask, debtHook } from "./utils";
+
+const BIPS = BigInt(10000);
+const WAD = BigInt("1000000000000000000");
+const Q192 = BigInt(1) << BigInt(192);
+
+// Where the operator gets the value of ETH collateral from
+export interface PriceSource {
+  name: string;
+  // Token the price is quoted in; only that token's book is collateral checked
+  token: TokenInfo;
+  // Base units of the quote token that one ETH is worth
+  getPrice(): Promise<bigint>;
+}
+
+// A fixed price, for tests and local networks without a pool
+export function staticPriceSource(price: bigint, token: TokenInfo = DEFAULT_LOAN_TOKEN): PriceSource {
+  return {
+    name: "static",
+    token,
+    getPrice: async () => price,
+  };
+}
+
+// Spot price of the hook's ETH/token pool. Currency0 is native ETH and currency1
+// the quote token, so sqrtPriceX96^2 / 2^192 is quote base units per wei.
+export function slot0PriceSource(
+  poolId: `0x${string}`,
+  token: TokenInfo = DEFAULT_LOAN_TOKEN
+): PriceSource {
+  return {
+    name: "slot0",
+    token,
+    async getPrice() {
+      const [sqrtPriceX96] = await debtHook.read.getPoolSlot0([poolId]);
+      return (sqrtPriceX96 * sqrtPriceX96 * WAD) / Q192;
+    },
+  };
+}
+
+// Time-weighted average of another source's prices over a trailing window.
+// Prices are sampled whenever one is asked for, i.e. once per batch, and each
+// sample holds until the next one.
+export function twapPriceSource(source: PriceSource, windowSeconds: bigint): PriceSource {
+  const samples: { time: bigint; price: bigint }[] = [];
+
+  return {
+    name: `twap(${source.name})`,
+    token: source.token,
+    async getPrice() {
+      const price = await source.getPrice();
+      const now = BigInt(Math.floor(Date.now() / 1000));
+      samples.push({ time: now, price });
+
+      // Keep the newest sample from before the window, as it sets the price at its start
+      const windowStart = now - windowSeconds;
+      while (samples.length > 1 && samples[1].time <= windowStart) {
+        samples.shift();
+      }
+
+      let weighted = BigInt(0);
+      let elapsed = BigInt(0);
+      for (let i = 0; i < samples.length - 1; i++) {
+        const duration = samples[i + 1].time - Mathb.max(samples[i].time, windowStart);
+        if (duration <= BigInt(0)) continue;
+        weighted += samples[i].price * duration;
+        elapsed += duration;
+      }
+
+      return elapsed > BigInt(0) ? weighted / elapsed : price;
+    },
+  };
+}
+
+// Build the price source named in the operator config: "static:<tokens per ETH>",
+// "slot0:<poolId>" or "twap:<poolId>:<window seconds>". Empty means no source,
+// and collateral goes unchecked.
+export function getPriceSource(spec: string): PriceSource | null {
+  if (spec === "") return null;
+
+  const [kind, ...args] = spec.split(":");
+  switch (kind) {
+    case "static":
+      return staticPriceSource(parseUnits(args[0] ?? "", DEFAULT_LOAN_TOKEN.decimals));
+    case "slot0":
+      return slot0PriceSource(parsePoolId(args[0]));
+    case "twap": {
+      const window = Number(args[1]);
+      if (!Number.isInteger(window) || window <= 0) {
+        throw new Error(`Invalid TWAP window "${args[1]}", expected a number of seconds`);
+      }
+      return twapPriceSource(slot0PriceSource(parsePoolId(args[0])), BigInt(window));
+    }
+    default:
+      throw new Error(
+        `Unknown price source "${spec}", expected one of: static:<price>, slot0:<poolId>, twap:<poolId>:<seconds>`
+      );
+  }
+}
+
+// Most principal a borrower's posted collateral covers at its collateral ratio
+export function collateralCapacity(task: LoanTask, price: bigint): bigint {
+  const ratio = task.orderData.collateralRatio;
+  if (ratio === BigInt(0)) return task.principalAmount;
+  return ((task.collateralRequired ?? BigInt(0)) * price * BIPS) / (WAD * ratio);
+}
+
+// Value of a borrower's posted collateral over its principal, in bips
+export function collateralRatioAtPrice(task: LoanTask, price: bigint): bigint {
+  if (task.principalAmount === BigInt(0)) return BigInt(0);
+  return ((task.collateralRequired ?? BigInt(0)) * price * BIPS) / (WAD * task.principalAmount);
+}
+
+// Borrowers as far as their collateral covers them, each carrying the ratio its
+// collateral comes to at the price. Orders that are only partly covered are
+// sized down to what is; orders covered for less than their minimum principal
+// are set aside with the reason.
+export function limitToCollateral(
+  tasks: LoanTask[],
+  price: bigint
+): { eligible: LoanTask[]; rejected: Map<number, LoanFeasibility> } {
+  const eligible: LoanTask[] = [];
+  const rejected = new Map<number, LoanFeasibility>();
+
+  for (const task of tasks) {
+    if (task.isLender) {
+      eligible.push(task);
+      continue;
+    }
+
+    const capacity = collateralCapacity(task, price);
+    if (capacity >= task.principalAmount) {
+      eligible.push({ ...task, collateralRatioAtPrice: collateralRatioAtPrice(task, price) });
+    } else if (capacity > BigInt(0) && capacity >= task.orderData.minPrincipal) {
+      const sized = {
+        ...task,
+        principalAmount: capacity,
+        orderData: {
+          ...task.orderData,
+          maxPrincipal: Mathb.min(task.orderData.maxPrincipal, capacity),
+        },
+      };
+      eligible.push({ ...sized, collateralRatioAtPrice: collateralRatioAtPrice(sized, price) });
+    } else {
+      rejected.set(task.taskId, LoanFeasibility.INSUFFICIENT_COLLATERAL);
+    }
+  }
+
+  return { eligible, rejected };
+}
+
+function parsePoolId(value: string | undefined): `0x${string}` {
+  if (!value || !/^0x[0-9a-fA-F]{64}$/.test(value)) {
+    throw new Error(`Invalid pool id "${value}", expected a 32 byte hex string`);
+  }
+  return value as `0x${string}`;
+}
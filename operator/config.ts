@@ -0,0 +1,162 @@
+import * as dotenv from "dotenv";
+dotenv.config();
+
+import { parseGwei } from "viem";
+import { DEFAULT_SURPLUS_POLICY } from "./pricing";
+import { TokenInfo } from "./tokens";
+import { PricingMode, SurplusPolicy, SurplusPolicyKind } from "./utils";
+
+const pricingMode = parsePricingMode(process.env.PRICING_MODE || PricingMode.UNIFORM);
+
+// Operator settings read once at startup
+export const operatorConfig = {
+  // One of: exhaustive, price-time, pro-rata, max-volume, call-auction
+  matchingStrategy: process.env.MATCHING_STRATEGY || "price-time",
+  // uniform (one rate per matching) or discriminatory (pay-as-bid per pair)
+  pricingMode,
+  // borrowers, lenders, proportional or ratio:<lender share in bips>. Pay-as-bid
+  // pricing defaults to borrowers, every other mode to an even split.
+  surplusPolicy: process.env.SURPLUS_POLICY
+    ? parseSurplusPolicy(process.env.SURPLUS_POLICY)
+    : pricingMode === PricingMode.DISCRIMINATORY
+      ? ({ kind: SurplusPolicyKind.BORROWERS } as SurplusPolicy)
+      : DEFAULT_SURPLUS_POLICY,
+  // Loan tokens as <address>:<symbol>:<decimals>, e.g. "0xA0b8...eB48:USDC:6".
+  // Tokens not listed are looked up on-chain the first time an order uses them.
+  tokens: parseTokens(process.env.TOKENS || ""),
+  // ETH price used to check borrower collateral: static:<tokens per ETH>,
+  // slot0:<poolId> or twap:<poolId>:<window seconds>. Empty skips the check.
+  priceSource: process.env.PRICE_SOURCE || "",
+  // Lowest collateral ratio each lender accepts from a borrower, as
+  // <lender address>:<bips> pairs, e.g. "0x70997970...79C8:20000". The ratio is
+  // the value of the borrower's collateral at the ETH price over its principal.
+  // Lenders not listed accept any borrower; any listed needs a price source.
+  lenderMinCollateralRatios: parseCollateralRatios(process.env.LENDER_MIN_COLLATERAL_RATIOS || ""),
+  // Seconds allowed from cutting a batch until its transaction is mined. Orders
+  // expiring within that margin are dropped so they cannot revert the batch.
+  expiryMarginSeconds: parseWholeNumber(process.env.EXPIRY_MARGIN_SECONDS || "30"),
+  // Orders of at least this principal, in whole tokens, flush their batch early
+  // when they would expire before the regular cut. Empty disables early flushes.
+  earlyFlushPrincipal: parseAmount(process.env.EARLY_FLUSH_PRINCIPAL || ""),
+  // Times a batch is re-signed and resent when another operator's batch moves
+  // the contract's currentBatchId on before ours lands
+  batchIdRetries: Number(parseWholeNumber(process.env.BATCH_ID_RETRIES || "3")),
+  // SQLite database holding orders, batches and submissions across restarts
+  stateDatabase: process.env.STATE_DATABASE || "operator.db",
+  // Block to scan for missed loan orders from when the state database has no
+  // checkpoint yet, e.g. the service manager's deployment block. Empty skips
+  // the scan on a fresh database.
+  backfillFromBlock: process.env.BACKFILL_FROM_BLOCK ? parseWholeNumber(process.env.BACKFILL_FROM_BLOCK) : null,
+  // Most blocks asked for in one getLogs call while scanning for missed orders
+  backfillChunkBlocks: parsePositiveNumber(process.env.BACKFILL_CHUNK_BLOCKS || "2000"),
+  // Recent blocks whose hashes are kept to detect reorgs. Orders ingested from
+  // a reorged block are rolled back and read again from the canonical chain.
+  reorgWindowBlocks: parsePositiveNumber(process.env.REORG_WINDOW_BLOCKS || "64"),
+  // Seconds a shutdown waits for the batch in flight and pending transactions
+  // before exiting with an error and leaving them for the next start
+  shutdownTimeoutSeconds: parseWholeNumber(process.env.SHUTDOWN_TIMEOUT_SECONDS || "120"),
+  // Where transactions still waiting to be mined are kept, so a restarted
+  // operator can pick them up again
+  pendingTransactionsFile: process.env.PENDING_TRANSACTIONS_FILE || "pending-transactions.json",
+  // Seconds a transaction may stay pending before it is resent with higher fees
+  txReplaceTimeoutSeconds: parseWholeNumber(process.env.TX_REPLACE_TIMEOUT_SECONDS || "60"),
+  // How much each resend raises the fees, in bips. Nodes only accept a
+  // replacement that pays at least 10% more.
+  txFeeBumpBips: parseFeeBump(process.env.TX_FEE_BUMP_BIPS || "1250"),
+  // Highest max fee per gas, in gwei, that a stuck transaction is bumped to.
+  // Empty bumps without limit.
+  txMaxFeePerGas: process.env.TX_MAX_FEE_GWEI ? parseGwei(parseAmount(process.env.TX_MAX_FEE_GWEI)) : null,
+};
+
+function parsePricingMode(value: string): PricingMode {
+  if (!Object.values(PricingMode).includes(value as PricingMode)) {
+    throw new Error(
+      `Unknown pricing mode "${value}", expected one of: ${Object.values(PricingMode).join(", ")}`
+    );
+  }
+  return value as PricingMode;
+}
+
+function parseSurplusPolicy(value: string): SurplusPolicy {
+  const [kind, share] = value.split(":");
+  switch (kind) {
+    case SurplusPolicyKind.BORROWERS:
+      return { kind: SurplusPolicyKind.BORROWERS };
+    case SurplusPolicyKind.LENDERS:
+      return { kind: SurplusPolicyKind.LENDERS };
+    case SurplusPolicyKind.PROPORTIONAL:
+      return { kind: SurplusPolicyKind.PROPORTIONAL };
+    case SurplusPolicyKind.RATIO: {
+      const lenderShareBips = Number(share);
+      if (!Number.isInteger(lenderShareBips) || lenderShareBips < 0 || lenderShareBips > 10000) {
+        throw new Error(`Invalid surplus ratio "${share}", expected lender share in bips (0-10000)`);
+      }
+      return { kind: SurplusPolicyKind.RATIO, lenderShareBips: BigInt(lenderShareBips) };
+    }
+    default:
+      throw new Error(
+        `Unknown surplus policy "${value}", expected one of: borrowers, lenders, proportional, ratio:<bips>`
+      );
+  }
+}
+
+function parseTokens(value: string): TokenInfo[] {
+  return value
+    .split(",")
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [address, symbol, decimals] = entry.split(":");
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address) || !symbol || !/^\d+$/.test(decimals ?? "")) {
+        throw new Error(`Invalid token "${entry}", expected <address>:<symbol>:<decimals>`);
+      }
+      return {
+        address: address as `0x${string}`,
+        symbol,
+        decimals: Number(decimals),
+      };
+    });
+}
+
+// Keyed by lowercased lender address
+function parseCollateralRatios(value: string): Map<string, bigint> {
+  const ratios = new Map<string, bigint>();
+  for (const entry of value.split(",").map(entry => entry.trim()).filter(entry => entry.length > 0)) {
+    const [address, bips] = entry.split(":");
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address) || bips === undefined) {
+      throw new Error(`Invalid lender collateral ratio "${entry}", expected <address>:<bips>`);
+    }
+    ratios.set(address.toLowerCase(), parseWholeNumber(bips));
+  }
+  return ratios;
+}
+
+function parseWholeNumber(value: string): bigint {
+  if (!/^\d+$/.test(value.trim())) {
+    throw new Error(`Invalid whole number "${value}"`);
+  }
+  return BigInt(value.trim());
+}
+
+function parsePositiveNumber(value: string): bigint {
+  const number = parseWholeNumber(value);
+  if (number === BigInt(0)) {
+    throw new Error(`Invalid number "${value}", expected at least 1`);
+  }
+  return number;
+}
+
+function parseFeeBump(value: string): bigint {
+  const bips = parseWholeNumber(value);
+  if (bips < BigInt(1000)) {
+    throw new Error(`Invalid fee bump "${value}", nodes reject replacements below 1000 bips (10%)`);
+  }
+  return bips;
+}
+
+function parseAmount(value: string): string {
+  if (value !== "" && !/^\d+(\.\d+)?$/.test(value.trim())) {
+    throw new Error(`Invalid token amount "${value}", expected a decimal number such as 10000`);
+  }
+  return value.trim();
+}
@@ -0,0 +1,58 @@
+import { Mathb } from "./math";
+import { LoanTask } from "./utils";
+
+// Pair-level rules that a single lender/borrower transfer must satisfy, kept in
+// line with DebtOrderServiceManager.validateMatches so matches do not revert on-chain
+
+// Lowest rate a lender accepts; validateMatches checks it against minRate
+export function lenderFloor(lender: LoanTask): bigint {
+  return lender.orderData.minRate;
+}
+
+// Highest rate a borrower pays; validateMatches checks it against maxRate
+export function borrowerCeiling(borrower: LoanTask): bigint {
+  return borrower.orderData.maxRate;
+}
+
+// The side of an order's rate range that limits who it can match with
+export function limitRate(task: LoanTask): bigint {
+  return task.isLender ? lenderFloor(task) : borrowerCeiling(task);
+}
+
+// A pair crosses when some rate satisfies both the lender floor and the borrower ceiling
+export function ratesCross(lender: LoanTask, borrower: LoanTask): boolean {
+  return lenderFloor(lender) <= borrowerCeiling(borrower);
+}
+
+// Largest amount one transfer between the pair can carry out of what is still
+// available, capped by both orders' maxPrincipal. Returns zero when that amount
+// would fall below either order's minPrincipal, so all-or-none orders
+// (minPrincipal == maxPrincipal) only ever fill in one piece.
+export function boundedTransferAmount(
+  lender: LoanTask,
+  borrower: LoanTask,
+  available: bigint
+): bigint {
+  const amount = Mathb.min(
+    available,
+    Mathb.min(lender.orderData.maxPrincipal, borrower.orderData.maxPrincipal)
+  );
+  const floor = Mathb.max(lender.orderData.minPrincipal, borrower.orderData.minPrincipal);
+  return amount > BigInt(0) && amount >= floor ? amount : BigInt(0);
+}
+
+// A lender only lends to borrowers whose posted collateral is worth at least its
+// minimum collateral ratio of the principal at the batch's ETH price. This is an
+// operator-side rule that validateMatches does not check. Borrowers that were
+// never priced cannot show that, so only lenders without a minimum take them.
+export function collateralAccepted(lender: LoanTask, borrower: LoanTask): boolean {
+  const minimum = lender.orderData.minCollateralRatio;
+  if (minimum === BigInt(0)) return true;
+  return borrower.collateralRatioAtPrice !== undefined && borrower.collateralRatioAtPrice >= minimum;
+}
+
+// An order whose remainder is below its own minPrincipal cannot take part in any
+// further transfer, so it is as good as fully filled
+export function canStillFill(task: LoanTask, remaining: bigint): boolean {
+  return remaining > BigInt(0) && remaining >= task.orderData.minPrincipal;
+}
@@ -0,0 +1,317 @@
+import {
+  borrowerCeiling,
+  boundedTransferAmount,
+  canStillFill,
+  collateralAccepted,
+  lenderFloor,
+  limitRate,
+  ratesCross,
+} from "./constraints";
+import { Mathb } from "./math";
+import { computeLoanTransfers, rejectionReasons, singleTaskMatchings, summarizeLoanMatchings } from "./matching";
+import { DEFAULT_SURPLUS_POLICY, pairRate, shareSurplus } from "./pricing";
+import {
+  LoanTask,
+  LoanFeasibility,
+  LoanMatching,
+  LoanMatchingResult,
+  SurplusPolicy,
+} from "./utils";
+
+// Pair matchings produced by a crossing, plus the orders that filled at all and
+// the reason any crossing order was turned away
+export type CrossingFills = {
+  matchings: LoanMatching[];
+  filled: Set<number>;
+  rejected: Map<number, LoanFeasibility>;
+};
+
+// Order book crossing for a single maturity group.
+//
+// Lenders are sorted by ascending minRate and borrowers by descending maxRate,
+// then the two sides are walked like an order book: the cheapest lender fills
+// the borrower willing to pay the most until one of them is exhausted. Each fill
+// becomes a lender/borrower pair matching. Runs in O(n log n), unlike the
+// exhaustive set-partition search in matching.ts.
+export function crossLoanOrders(
+  tasks: LoanTask[],
+  surplusPolicy: SurplusPolicy = DEFAULT_SURPLUS_POLICY
+): LoanMatchingResult {
+  const lenders = tasks
+    .filter(task => task.isLender)
+    .sort(compareLenders);
+  const borrowers = tasks
+    .filter(task => !task.isLender)
+    .sort(compareBorrowers);
+
+  const fills = crossSortedLoanOrders(
+    lenders,
+    borrowers,
+    (lender, borrower) => pairRate(lender, borrower, surplusPolicy)
+  );
+
+  return summarizeCrossing(tasks, fills);
+}
+
+// Volume-maximizing crossing for a single maturity group.
+//
+// A borrower can only be filled by lenders asking at most its rate, so the
+// borrowers with the lowest rates are the most constrained. Serving them
+// first from the cheapest remaining lenders never takes liquidity that a
+// higher-paying borrower could not replace, which maximizes matched volume.
+export function crossLoanOrdersForVolume(
+  tasks: LoanTask[],
+  surplusPolicy: SurplusPolicy = DEFAULT_SURPLUS_POLICY
+): LoanMatchingResult {
+  const lenders = tasks
+    .filter(task => task.isLender)
+    .sort(compareLenders);
+  const borrowers = tasks
+    .filter(task => !task.isLender)
+    .sort((a, b) =>
+      limitRate(a) !== limitRate(b)
+        ? (limitRate(a) < limitRate(b) ? -1 : 1)
+        : a.taskId - b.taskId
+    );
+
+  const fills: CrossingFills = { matchings: [], filled: new Set(), rejected: new Map() };
+  const lenderRemaining = lenders.map(lender => lender.principalAmount);
+  let lenderIndex = 0;
+
+  for (const borrower of borrowers) {
+    let borrowerRemaining = borrower.principalAmount;
+
+    for (let i = lenderIndex; i < lenders.length && canStillFill(borrower, borrowerRemaining); i++) {
+      const lender = lenders[i];
+      if (!ratesCross(lender, borrower)) break;
+      if (!canStillFill(lender, lenderRemaining[i])) continue;
+      if (!collateralAccepted(lender, borrower)) {
+        rejectPair(fills, lender, borrower, LoanFeasibility.LENDER_COLLATERAL_RATIO);
+        continue;
+      }
+
+      const fillAmount = boundedTransferAmount(
+        lender,
+        borrower,
+        Mathb.min(lenderRemaining[i], borrowerRemaining)
+      );
+      if (fillAmount === BigInt(0)) {
+        rejectPair(fills, lender, borrower, LoanFeasibility.PRINCIPAL_BOUNDS);
+        continue;
+      }
+
+      lenderRemaining[i] -= fillAmount;
+      borrowerRemaining -= fillAmount;
+      recordFill(
+        fills,
+        lender,
+        borrower,
+        fillAmount,
+        lenderRemaining[i],
+        borrowerRemaining,
+        (l, b) => pairRate(l, b, surplusPolicy)
+      );
+    }
+
+    // Spent lenders at the front never need to be visited again
+    while (
+      lenderIndex < lenders.length &&
+      !canStillFill(lenders[lenderIndex], lenderRemaining[lenderIndex])
+    ) {
+      lenderIndex++;
+    }
+  }
+
+  return summarizeCrossing(tasks, fills);
+}
+
+// Pro-rata crossing for a single maturity group.
+//
+// The order book crossing decides how much volume clears and which orders take
+// part. Instead of filling in price-time priority, every participating order
+// then shares the cleared volume in proportion to its size, at one rate set
+// between the last lender and borrower that crossed.
+export function crossLoanOrdersProRata(
+  tasks: LoanTask[],
+  surplusPolicy: SurplusPolicy = DEFAULT_SURPLUS_POLICY
+): LoanMatchingResult {
+  const crossed = crossLoanOrders(tasks, surplusPolicy);
+  const pairs = crossed.matchings.filter(matching => matching.matchedAmount > BigInt(0));
+  if (pairs.length === 0) return crossed;
+
+  const participants = new Map<number, LoanTask>();
+  for (const pair of pairs) {
+    for (const task of pair.loanTasks) {
+      participants.set(task.taskId, task);
+    }
+  }
+
+  // One rate has to sit inside every participant's limit, and every lender has
+  // to accept every borrower's collateral. Re-routing around principal bounds or
+  // collateral requirements can break that, in which case priority fills are kept.
+  const group = [...participants.values()];
+  const groupLenders = group.filter(task => task.isLender);
+  const groupBorrowers = group.filter(task => !task.isLender);
+  if (!groupLenders.every(lender => groupBorrowers.every(borrower => collateralAccepted(lender, borrower)))) {
+    return crossed;
+  }
+  const marginalLenderRate = groupLenders.map(lenderFloor).reduce(Mathb.max);
+  const marginalBorrowerRate = groupBorrowers.map(borrowerCeiling).reduce(Mathb.min);
+  if (marginalLenderRate > marginalBorrowerRate) return crossed;
+
+  const totalLenderAmount = groupLenders.reduce((sum, task) => sum + task.principalAmount, BigInt(0));
+  const totalBorrowerAmount = groupBorrowers.reduce((sum, task) => sum + task.principalAmount, BigInt(0));
+
+  const matchings: LoanMatching[] = [{
+    loanTasks: group,
+    feasibility: totalLenderAmount === totalBorrowerAmount
+      ? LoanFeasibility.FULL_MATCH
+      : totalLenderAmount > totalBorrowerAmount
+        ? LoanFeasibility.PARTIAL_LENDER
+        : LoanFeasibility.PARTIAL_BORROWER,
+    totalLenderAmount,
+    totalBorrowerAmount,
+    matchedAmount: crossed.totalMatchedAmount,
+    effectiveRate: shareSurplus(
+      marginalLenderRate,
+      marginalBorrowerRate,
+      surplusPolicy,
+      totalLenderAmount,
+      totalBorrowerAmount
+    ),
+    maturityTimestamp: pairs[0].maturityTimestamp,
+  }];
+
+  // Shares are rounded down and each transfer must respect principal bounds. If
+  // the transfers cannot carry all of the crossed volume, the pro-rata result
+  // would claim more than it fills, so priority fills are kept.
+  const { transfers } = computeLoanTransfers(summarizeLoanMatchings(group, matchings));
+  const placed = transfers.reduce((sum, transfer) => sum + transfer.amount, BigInt(0));
+  if (placed < crossed.totalMatchedAmount) return crossed;
+
+  const unmatched = tasks.filter(task => !participants.has(task.taskId));
+  matchings.push(...singleTaskMatchings(unmatched, rejectionReasons(crossed)));
+  return summarizeLoanMatchings(tasks, matchings);
+}
+
+// Walk lenders and borrowers that are already in priority order, filling each
+// crossing pair at the rate chosen by pairRate. A pair whose fill would break
+// either order's principal bounds, or whose borrower pledges less collateral
+// than the lender requires, is skipped and the lender moves on to the next
+// borrower instead.
+export function crossSortedLoanOrders(
+  lenders: LoanTask[],
+  borrowers: LoanTask[],
+  pairRate: (lender: LoanTask, borrower: LoanTask) => bigint
+): CrossingFills {
+  const fills: CrossingFills = { matchings: [], filled: new Set(), rejected: new Map() };
+  const borrowerRemaining = borrowers.map(borrower => borrower.principalAmount);
+  let borrowerIndex = 0;
+
+  for (const lender of lenders) {
+    let lenderRemaining = lender.principalAmount;
+
+    for (let j = borrowerIndex; j < borrowers.length && canStillFill(lender, lenderRemaining); j++) {
+      const borrower = borrowers[j];
+
+      // Borrowers are sorted, so once this one does not cross no later one will
+      if (!ratesCross(lender, borrower)) break;
+      if (!canStillFill(borrower, borrowerRemaining[j])) continue;
+      if (!collateralAccepted(lender, borrower)) {
+        rejectPair(fills, lender, borrower, LoanFeasibility.LENDER_COLLATERAL_RATIO);
+        continue;
+      }
+
+      const fillAmount = boundedTransferAmount(
+        lender,
+        borrower,
+        Mathb.min(lenderRemaining, borrowerRemaining[j])
+      );
+      if (fillAmount === BigInt(0)) {
+        rejectPair(fills, lender, borrower, LoanFeasibility.PRINCIPAL_BOUNDS);
+        continue;
+      }
+
+      lenderRemaining -= fillAmount;
+      borrowerRemaining[j] -= fillAmount;
+      recordFill(fills, lender, borrower, fillAmount, lenderRemaining, borrowerRemaining[j], pairRate);
+    }
+
+    // Spent borrowers at the front never need to be visited again
+    while (
+      borrowerIndex < borrowers.length &&
+      !canStillFill(borrowers[borrowerIndex], borrowerRemaining[borrowerIndex])
+    ) {
+      borrowerIndex++;
+    }
+  }
+
+  return fills;
+}
+
+// Lowest lender floor first, earlier task first on equal rates
+export function compareLenders(a: LoanTask, b: LoanTask): number {
+  if (lenderFloor(a) !== lenderFloor(b)) {
+    return lenderFloor(a) < lenderFloor(b) ? -1 : 1;
+  }
+  return a.taskId - b.taskId;
+}
+
+// Highest borrower ceiling first, earlier task first on equal rates
+export function compareBorrowers(a: LoanTask, b: LoanTask): number {
+  if (borrowerCeiling(a) !== borrowerCeiling(b)) {
+    return borrowerCeiling(a) > borrowerCeiling(b) ? -1 : 1;
+  }
+  return a.taskId - b.taskId;
+}
+
+// Add the pair matchings to the orders that never filled, reported on their own
+// with the reason they were turned away if there was one
+export function summarizeCrossing(tasks: LoanTask[], fills: CrossingFills): LoanMatchingResult {
+  const unfilled = tasks.filter(task => !fills.filled.has(task.taskId));
+  return summarizeLoanMatchings(tasks, [
+    ...fills.matchings,
+    ...singleTaskMatchings(unfilled, fills.rejected),
+  ]);
+}
+
+function recordFill(
+  fills: CrossingFills,
+  lender: LoanTask,
+  borrower: LoanTask,
+  fillAmount: bigint,
+  lenderRemaining: bigint,
+  borrowerRemaining: bigint,
+  pairRate: (lender: LoanTask, borrower: LoanTask) => bigint
+) {
+  fills.matchings.push({
+    loanTasks: [lender, borrower],
+    feasibility: pairFeasibility(lenderRemaining, borrowerRemaining),
+    totalLenderAmount: lender.principalAmount,
+    totalBorrowerAmount: borrower.principalAmount,
+    matchedAmount: fillAmount,
+    effectiveRate: pairRate(lender, borrower),
+    maturityTimestamp: borrower.maturityTimestamp,
+  });
+  fills.filled.add(lender.taskId);
+  fills.filled.add(borrower.taskId);
+}
+
+// Remember why a crossing pair was turned away, in case neither order fills elsewhere
+function rejectPair(
+  fills: CrossingFills,
+  lender: LoanTask,
+  borrower: LoanTask,
+  reason: LoanFeasibility
+) {
+  fills.rejected.set(lender.taskId, reason);
+  fills.rejected.set(borrower.taskId, reason);
+}
+
+function pairFeasibility(lenderRemaining: bigint, borrowerRemaining: bigint): LoanFeasibility {
+  if (lenderRemaining > BigInt(0) && borrowerRemaining > BigInt(0)) return LoanFeasibility.PARTIAL_BOTH;
+  if (lenderRemaining > BigInt(0)) return LoanFeasibility.PARTIAL_LENDER;
+  if (borrowerRemaining > BigInt(0)) return LoanFeasibility.PARTIAL_BORROWER;
+  return LoanFeasibility.FULL_MATCH;
+}
+
@@ -0,0 +1,50 @@
+import { parseUnits } from "viem";
+import { resolveTokenInfo } from "./tokens";
+import { LoanTask } from "./utils";
+
+// Latest time a batch cut at `now` can expect to be mined, allowing the margin
+// for signing, submission and inclusion. Every order in the batch must still be
+// live then, as respondToLoanBatch reverts the whole batch with "Order expired".
+export function inclusionDeadline(now: bigint, marginSeconds: bigint): bigint {
+  return now + marginSeconds;
+}
+
+// Split orders into those that will still be live at the deadline and those
+// that will have expired by then
+export function splitByExpiry(
+  tasks: LoanTask[],
+  deadline: bigint
+): { live: LoanTask[]; expiring: LoanTask[] } {
+  const live: LoanTask[] = [];
+  const expiring: LoanTask[] = [];
+  for (const task of tasks) {
+    (task.orderData.expiry > deadline ? live : expiring).push(task);
+  }
+  return { live, expiring };
+}
+
+// Orders of at least `minPrincipal` whole tokens that would miss the next
+// regular batch cut, at `nextCutTime`, but can still be included if the batch
+// is cut now. Any of them is worth flushing the batch early for.
+export async function ordersForcingEarlyFlush(
+  tasks: LoanTask[],
+  now: bigint,
+  nextCutTime: bigint,
+  marginSeconds: bigint,
+  minPrincipal: string
+): Promise<LoanTask[]> {
+  const cutNow = inclusionDeadline(now, marginSeconds);
+  const cutLater = inclusionDeadline(nextCutTime, marginSeconds);
+
+  const urgent: LoanTask[] = [];
+  for (const task of tasks) {
+    const expiry = task.orderData.expiry;
+    if (expiry <= cutNow || expiry > cutLater) continue;
+
+    const token = await resolveTokenInfo(task.orderData.token);
+    if (task.principalAmount >= parseUnits(minPrincipal, token.decimals)) {
+      urgent.push(task);
+    }
+  }
+  return urgent;
+}
@@ -1,16 +1,65 @@
-import { parseEventLogs } from "viem";
+import { TransactionReceipt, encodeFunctionData, isAddressEqual, parseEventLogs } from "viem";
 import { ServiceManagerABI } from "./abis/ServiceManager";
+import { backfillLoanOrders } from "./backfill";
+import { fromLoanOrderTask, matchesTaskHash, toLoanOrderTask } from "./codec";
+import { getPriceSource } from "./collateral";
+import { operatorConfig } from "./config";
+import { inclusionDeadline, ordersForcingEarlyFlush, splitByExpiry } from "./expiry";
 import {
-  computeLoanTransfers,
-  computeBestLoanResult,
-  computeLoanMatchingResult,
-  generateLoanTaskCombinations,
-  isLoanCombinationPossible,
-} from "./matching";
+  OrderLifecycle,
+  OrderStatus,
+  describeOrder,
+  isOpen,
+  recordFill,
+  trackOrder,
+  transitionOrder,
+} from "./lifecycle";
+import { computeLoanTransfers, describeLoanTransfers, isMatched } from "./matching";
+import { groupByMaturity } from "./maturity";
+import { applyBlendedRates, describeSurplusPolicy, summarizeOrderFills } from "./pricing";
+import { BlockWindow, LogSource, findForkPoint, orphanedBlocks, recordBlock } from "./reorg";
+import { createStage, describeStage } from "./pipeline";
 import { registerOperator } from "./register";
+import { ResidualBook, ResidualOrder, carryForward, newResidualOrder, pruneResidualBook, residualTask } from "./residual";
 import {
+  closeStore,
+  deleteOrders,
+  loadState,
+  openStore,
+  saveBatchProcessed,
+  saveLastProcessedBlock,
+  saveOrder,
+  saveOrderRecord,
+  saveResidualBook,
+  saveSubmission,
+  settleSubmission,
+} from "./store";
+import { getMatchingStrategy } from "./strategies";
+import {
+  DroppedMatch,
+  findViableBatch,
+  isLoanBatchStale,
+  readCurrentBatchId,
+  signLoanBatch,
+  toLoanMatch,
+} from "./submission";
+import { DEFAULT_LOAN_TOKEN, formatTokenAmount, groupByToken, resolveTokenInfo, tokenKey } from "./tokens";
+import {
+  TransactionRequest,
+  cancelTransaction,
+  hasPendingTransaction,
+  pendingTransactions,
+  recoverPendingTransactions,
+  replaceTransaction,
+  sendTransaction,
+  waitForTransaction,
+} from "./transactions";
+import { validateLoanBatch } from "./validation";
+import {
+  LoanFeasibility,
   LoanTask,
-  LoanMatchingResult,
+  LoanTransfer,
+  MatchingOptions,
   account,
   debtHook,
   publicClient,
@@ -21,20 +70,280 @@ import {
 let latestBatchNumber: bigint = BigInt(0);
 const MAX_BLOCKS_PER_BATCH = 10; // Process loan orders every 10 blocks
 const batches: Record<string, LoanTask[]> = {};
+const residualBook: ResidualBook = new Map();
+// Orders the latest cut took, which cannot flush the open batch early again
+const triedOrders = new Set<number>();
+let lastBlockTimestamp = BigInt(0);
+let blockTimeSeconds = BigInt(12); // Refined from the blocks seen
+let lastProcessedBlock: bigint | null = null;
+// First block still to be read again after a reorg whose rescan failed
+let pendingRescanFrom: bigint | null = null;
+// Recent block hashes, and the block each order's log came from, to notice reorgs
+const recentBlocks: BlockWindow = new Map();
+const orderSources = new Map<number, LogSource>();
+const orderLifecycle: OrderLifecycle = new Map();
+// Amount each order fills in batches this operator submitted, by transaction
+// nonce, as a batch resent with higher fees is mined under a different hash
+const submittedFills = new Map<number, Map<number, bigint>>();
+const matchingStrategy = getMatchingStrategy(operatorConfig.matchingStrategy);
+const matchingOptions: MatchingOptions = {
+  surplusPolicy: operatorConfig.surplusPolicy,
+};
+const priceSource = getPriceSource(operatorConfig.priceSource);
+
+// Blocks rescanned behind the checkpoint on startup, as logs of the last blocks
+// seen may not have been delivered yet when the operator stopped
+const BACKFILL_OVERLAP_BLOCKS = BigInt(MAX_BLOCKS_PER_BATCH);
+
+// Pick up the orders, batches and submissions a previous run left behind.
+// Orders of a batch that was never processed join the residual book, and
+// orders caught in a batch go back to Pending to be matched again.
+const restoreState = () => {
+  const state = loadState();
+  for (const [taskId, record] of state.orderLifecycle) {
+    orderLifecycle.set(taskId, record);
+  }
+  for (const [taskId, order] of state.residualBook) {
+    residualBook.set(taskId, order);
+  }
+  for (const [nonce, fills] of state.submittedFills) {
+    submittedFills.set(nonce, fills);
+  }
+  for (const [taskId, source] of state.orderSources) {
+    orderSources.set(taskId, source);
+  }
+  for (const [batchNumber, tasks] of Object.entries(state.batches)) {
+    for (const task of tasks) {
+      if (isOpen(orderLifecycle.get(task.taskId)!.status) && !residualBook.has(task.taskId)) {
+        residualBook.set(task.taskId, newResidualOrder(task));
+      }
+    }
+    saveBatchProcessed(BigInt(batchNumber), residualBook);
+  }
+  for (const order of residualBook.values()) {
+    updateOrderStatus(order.task.taskId, OrderStatus.PENDING, "Operator restarted");
+  }
+  lastProcessedBlock = state.lastProcessedBlock;
+
+  console.log(
+    `Restored ${orderLifecycle.size} orders, ${residualBook.size} open, ` +
+    `${submittedFills.size} pending submissions, last processed block ${lastProcessedBlock ?? "none"}`
+  );
+};
+
+// Settle restored orders that some operator responded to while this one was down
+const settleRespondedOrders = async () => {
+  for (const order of [...residualBook.values()]) {
+    if (await serviceManager.read.isTaskResponded([order.task.taskId])) {
+      residualBook.delete(order.task.taskId);
+      fillOrder(order.task.taskId, undefined, "Responded to while the operator was down");
+    }
+  }
+  saveResidualBook(residualBook);
+};
+
+// Add the loan orders created in blocks `fromBlock` to `toBlock` that are still
+// open to the residual book. Orders already known are skipped, so ranges may
+// overlap.
+const backfillOrders = async (fromBlock: bigint, toBlock: bigint) => {
+  const latestBlock = await publicClient.getBlock();
+  const counts = { open: 0, responded: 0, expired: 0, rejected: 0 };
+  await backfillLoanOrders(fromBlock, toBlock, operatorConfig.backfillChunkBlocks, (orders, lastBlock) => {
+    for (const order of orders) {
+      const task = order.task;
+      if (orderLifecycle.has(task.taskId)) continue;
+      if (order.responded) {
+        counts.responded++;
+        continue;
+      }
+      if (task.orderData.expiry <= latestBlock.timestamp) {
+        counts.expired++;
+        continue;
+      }
+
+      const record = trackOrder(orderLifecycle, task, `Backfilled from block ${order.source.blockNumber}`);
+      orderSources.set(task.taskId, order.source);
+      if (order.hashMatches) {
+        residualBook.set(task.taskId, newResidualOrder(task));
+        counts.open++;
+      } else {
+        transitionOrder(orderLifecycle, task.taskId, OrderStatus.REJECTED, "Decoded task does not match allTaskHashes");
+        counts.rejected++;
+      }
+      saveOrder(task, record, null, order.source);
+    }
+    saveResidualBook(residualBook);
+    checkpointBlock(lastBlock);
+  });
+
+  console.log(`Backfilled blocks ${fromBlock}-${toBlock}:`, counts);
+};
+
+// Move the last processed block on. It never goes back, as the startup catch-up
+// scan can finish after newer blocks were already seen; only a reorg rewinds it.
+const checkpointBlock = (blockNumber: bigint) => {
+  if (lastProcessedBlock !== null && blockNumber <= lastProcessedBlock) return;
+  lastProcessedBlock = blockNumber;
+  saveLastProcessedBlock(blockNumber);
+};
+
+// Undo everything ingested from blocks after `forkBlock` and read those blocks
+// again, up to `toBlock`, from the canonical chain. Orders from an open batch
+// or the residual book are forgotten, as a reorged log may never come back or
+// come back as a different task. Orders already in a batch being submitted, or
+// settled, are left alone: the hash check before submission catches any that
+// no longer exist.
+const rollBackReorg = async (forkBlock: bigint, toBlock: bigint) => {
+  const rolledBack: number[] = [];
+  for (const [taskId, source] of orderSources) {
+    if (source.blockNumber <= forkBlock) continue;
+    const status = orderLifecycle.get(taskId)?.status;
+    if (status !== undefined && status !== OrderStatus.PENDING && status !== OrderStatus.REJECTED) {
+      console.warn(`Order ${taskId} came from reorged block ${source.blockNumber} but is already ${status}, keeping it`);
+      continue;
+    }
+    rolledBack.push(taskId);
+  }
+
+  const rolledBackIds = new Set(rolledBack);
+  for (const taskId of rolledBack) {
+    orderLifecycle.delete(taskId);
+    residualBook.delete(taskId);
+    orderSources.delete(taskId);
+  }
+  for (const batchNumber of Object.keys(batches)) {
+    batches[batchNumber] = batches[batchNumber].filter(task => !rolledBackIds.has(task.taskId));
+  }
+  deleteOrders(rolledBack);
+  saveResidualBook(residualBook);
+
+  for (const blockNumber of recentBlocks.keys()) {
+    if (blockNumber > forkBlock) recentBlocks.delete(blockNumber);
+  }
+  if (lastProcessedBlock !== null && lastProcessedBlock > forkBlock) {
+    lastProcessedBlock = forkBlock;
+    saveLastProcessedBlock(forkBlock);
+  }
+
+  console.warn(`Rolled back orders from blocks after ${forkBlock}:`, rolledBack);
+  await rescanFrom(forkBlock + BigInt(1), toBlock);
+};
+
+// Read blocks `fromBlock` to `toBlock` again after a reorg, along with any
+// range a failed rescan left behind. Until it succeeds the range is kept, for
+// the next block to retry.
+const rescanFrom = async (fromBlock: bigint, toBlock: bigint) => {
+  if (pendingRescanFrom === null || fromBlock < pendingRescanFrom) {
+    pendingRescanFrom = fromBlock;
+  }
+  await backfillOrders(pendingRescanFrom, toBlock);
+  pendingRescanFrom = null;
+};
+
+// Roll back orders restored from blocks that were reorged out while the
+// operator was stopped. Only blocks within the reorg window are checked.
+const checkRestoredOrders = async () => {
+  const head = await publicClient.getBlockNumber();
+  const recent = [...orderSources.values()].filter(
+    source => source.blockNumber + operatorConfig.reorgWindowBlocks > head
+  );
+  const orphaned = await orphanedBlocks(recent);
+  if (orphaned.length === 0) return;
+
+  const forkBlock = orphaned.reduce((a, b) => (a < b ? a : b)) - BigInt(1);
+  console.warn(`Restored orders came from reorged blocks ${orphaned.join(", ")}`);
+  await rollBackReorg(forkBlock, head);
+};
+
+// Lifecycle changes, written through to the state store
+const updateOrderStatus = (taskId: number, status: OrderStatus, reason: string) => {
+  if (transitionOrder(orderLifecycle, taskId, status, reason)) {
+    saveOrderRecord(orderLifecycle.get(taskId)!);
+  }
+};
+
+const fillOrder = (taskId: number, filledAmount: bigint | undefined, reason: string) => {
+  if (recordFill(orderLifecycle, taskId, filledAmount, reason)) {
+    saveOrderRecord(orderLifecycle.get(taskId)!);
+  }
+};
+
+// Ingest: start tracking a new loan order and add it to the open batch
+const ingestOrder = async ({ task, source }: { task: LoanTask; source: LogSource }) => {
+  if (orderLifecycle.has(task.taskId)) return;
+  const record = trackOrder(orderLifecycle, task, `Created in block ${source.blockNumber}`);
+  orderSources.set(task.taskId, source);
 
-// Group orders by maturity for better matching
-const groupByMaturity = (tasks: LoanTask[]): Map<string, LoanTask[]> => {
-  const groups = new Map<string, LoanTask[]>();
+  // A task that does not hash to allTaskHashes could never be submitted
+  const taskHash = await serviceManager.read.allTaskHashes([task.taskId]);
+  if (!matchesTaskHash(task, taskHash)) {
+    console.error(`Loan order ${task.taskId} does not match its on-chain hash ${taskHash}, ignoring it`);
+    transitionOrder(orderLifecycle, task.taskId, OrderStatus.REJECTED, "Decoded task does not match allTaskHashes");
+    saveOrder(task, record, null, source);
+    return;
+  }
+
+  // Add to current batch
+  if (!batches[latestBatchNumber.toString()]) {
+    batches[latestBatchNumber.toString()] = [];
+  }
+  batches[latestBatchNumber.toString()].push(task);
+  saveOrder(task, record, latestBatchNumber, source);
   
-  for (const task of tasks) {
-    const maturityKey = task.maturityTimestamp.toString();
-    if (!groups.has(maturityKey)) {
-      groups.set(maturityKey, []);
+  const token = await resolveTokenInfo(task.orderData.token);
+  console.log("Loan order added to batch:", {
+    taskId: task.taskId,
+    isLender: task.isLender,
+    amount: formatTokenAmount(task.principalAmount, token),
+    rate: Number(task.interestRateBips) / 100 + "%",
+    range: `${Number(task.orderData.minRate) / 100}%-${Number(task.orderData.maxRate) / 100}%`,
+    maturity: new Date(Number(task.maturityTimestamp) * 1000).toISOString(),
+  });
+};
+
+// Follow a new block: refine the block time, deal with any reorg it reveals,
+// and cut the open batch when it is due
+const handleBlock = async (block: {
+  number: bigint;
+  hash: `0x${string}`;
+  parentHash: `0x${string}`;
+  timestamp: bigint;
+}) => {
+  const blockNumber = block.number;
+  console.log("Block number:", blockNumber);
+  if (lastBlockTimestamp > BigInt(0) && block.timestamp > lastBlockTimestamp) {
+    blockTimeSeconds = block.timestamp - lastBlockTimestamp;
+  }
+  lastBlockTimestamp = block.timestamp;
+
+  // Orders from blocks that were reorged out are replaced with the
+  // canonical chain's before anything is matched. A block that fails here is
+  // not recorded, so the next one checks the chain again.
+  const fork = await findForkPoint(recentBlocks, block);
+  if (fork) {
+    if (fork.deep) {
+      console.error(`Reorg deeper than ${operatorConfig.reorgWindowBlocks} blocks at block ${blockNumber}`);
     }
-    groups.get(maturityKey)!.push(task);
+    console.warn(`Reorg at block ${blockNumber}, chain forked after block ${fork.forkBlock}`);
+    await rollBackReorg(fork.forkBlock, blockNumber);
+  } else if (pendingRescanFrom !== null) {
+    console.warn(`Retrying the rescan of blocks from ${pendingRescanFrom} after a reorg`);
+    await rescanFrom(pendingRescanFrom, blockNumber);
   }
+  recordBlock(recentBlocks, block, operatorConfig.reorgWindowBlocks);
+  checkpointBlock(blockNumber);
   
-  return groups;
+  if (latestBatchNumber === BigInt(0)) {
+    console.log("First batch created at block:", blockNumber);
+    latestBatchNumber = blockNumber;
+  } else if (blockNumber - latestBatchNumber >= MAX_BLOCKS_PER_BATCH) {
+    cutBatch(blockNumber);
+  } else {
+    const batchNumber = latestBatchNumber;
+    if (await flushesEarly(batchNumber, blockNumber, block.timestamp) && batchNumber === latestBatchNumber) {
+      cutBatch(blockNumber);
+    }
+  }
 };
 
 const startMonitoring = async () => {
@@ -46,216 +355,712 @@ const startMonitoring = async () => {
         const parsedLogs = parseEventLogs({
           logs: logs,
           abi: ServiceManagerABI,
-          eventName: "NewLoanOrderCreated", // TODO: Update event name in ABI
+          eventName: "NewLoanOrderCreated",
         });
 
         for (const event of parsedLogs) {
-          const orderData = event.args.order;
-          
-          // Create LoanTask from event data
-          const task: LoanTask = {
-            isLender: orderData.isLender,
-            principalAmount: orderData.principalAmount,
-            interestRateBips: orderData.interestRateBips,
-            maturityTimestamp: orderData.maturityTimestamp,
-            collateralRequired: orderData.collateralRequired,
-            sender: orderData.sender,
-            orderId: orderData.orderId,
-            orderData: {
-              token: orderData.token,
-              minPrincipal: orderData.minPrincipal,
-              maxPrincipal: orderData.maxPrincipal,
-              minRate: orderData.minRate,
-              maxRate: orderData.maxRate,
-              maturityOptions: [orderData.maturityTimestamp], // Simplified for now
-              collateralRatio: orderData.collateralRatio || BigInt(15000), // 150%
-              expiry: orderData.expiry,
-              nonce: orderData.nonce,
-            },
-            taskCreatedBlock: Number(event.blockNumber),
-            taskId: Number(orderData.taskId),
-            matchedAmount: null,
-            effectiveRate: null,
-          };
-
-          // Add to current batch
-          if (!batches[latestBatchNumber.toString()]) {
-            batches[latestBatchNumber.toString()] = [];
+          // Logs of reorged blocks are dealt with when the block watcher sees the reorg
+          if (event.removed) continue;
+
+          // Rebuild the task from the exact struct the contract hashed
+          stages.ingest.run({
+            task: fromLoanOrderTask(event.args.task),
+            source: { blockNumber: event.blockNumber, blockHash: event.blockHash },
+          }).catch(error => console.error("Error ingesting loan order:", error));
+        }
+      },
+    }
+  );
+
+  // Follow batch responses from every operator to settle order statuses
+  const unwatchResponses = serviceManager.watchEvent.LoanBatchResponse(
+    {},
+    {
+      onLogs: async (logs) => {
+        for (const log of logs) {
+          try {
+            await recordBatchResponse(log.transactionHash, log.args.operator!);
+          } catch (error) {
+            console.error(`Error recording batch response ${log.transactionHash}:`, error);
           }
-          batches[latestBatchNumber.toString()].push(task);
-          
-          console.log("Loan order added to batch:", {
-            taskId: task.taskId,
-            isLender: task.isLender,
-            amount: task.principalAmount.toString(),
-            rate: Number(task.interestRateBips) / 100 + "%",
-            maturity: new Date(Number(task.maturityTimestamp) * 1000).toISOString(),
-          });
         }
       },
     }
   );
 
-  // Process batches every N blocks
-  const unwatchBlocks = publicClient.watchBlockNumber({
-    onBlockNumber: (blockNumber) => {
-      console.log("Block number:", blockNumber);
-      
-      if (latestBatchNumber === BigInt(0)) {
-        console.log("First batch created at block:", blockNumber);
-        latestBatchNumber = blockNumber;
-      } else if (blockNumber - latestBatchNumber >= MAX_BLOCKS_PER_BATCH) {
-        // Process the batch
-        processBatch(latestBatchNumber);
-        // Create a new batch
-        latestBatchNumber = blockNumber;
-        console.log("New batch created at block:", latestBatchNumber);
-      }
+  // Process batches every N blocks, or sooner when an order would expire first.
+  // Blocks are handled one at a time, in the order they arrive, including any
+  // skipped between polls.
+  const unwatchBlocks = publicClient.watchBlocks({
+    emitMissed: true,
+    onBlock: (block) => {
+      stages.blocks.run(block).catch(error => console.error(`Error handling block ${block.number}:`, error));
     },
   });
 
-  return { unwatchTasks, unwatchBlocks };
+  return { unwatchTasks, unwatchResponses, unwatchBlocks };
 };
 
-const processBatch = async (batchNumber: bigint) => {
-  const tasks = batches[batchNumber.toString()];
-  if (!tasks || tasks.length === 0) {
-    console.log("No tasks in batch", batchNumber);
+// Hand the open batch to the pipeline and start a new one at this block. While
+// the pipeline is backed up the cut is deferred and the open batch keeps growing.
+const cutBatch = (blockNumber: bigint) => {
+  if (shuttingDown) return;
+  if (stages.flight.isFull()) {
+    deferredCuts++;
+    console.warn(`Batch pipeline is full, deferring the cut of batch ${latestBatchNumber} (${deferredCuts} deferred so far)`);
     return;
   }
 
-  console.log(`Processing batch ${batchNumber} with ${tasks.length} loan orders`);
+  const batchNumber = latestBatchNumber;
+  latestBatchNumber = blockNumber;
+  console.log("New batch created at block:", latestBatchNumber);
+  stages.flight.run(batchNumber)
+    .catch(error => console.error(`Error processing batch ${batchNumber}:`, error))
+    .finally(logPipelineMetrics);
+};
 
-  // Group tasks by maturity for better matching
-  const maturityGroups = groupByMaturity(tasks);
-  
-  let allTransfers: any[] = [];
-  let allMatchedTasks: LoanTask[] = [];
-
-  // Process each maturity group separately
-  for (const [maturity, groupTasks] of maturityGroups) {
-    console.log(`Processing ${groupTasks.length} orders for maturity ${new Date(Number(maturity) * 1000).toISOString()}`);
-    
-    // Generate all possible combinations for this maturity group
-    const allCombinations = generateLoanTaskCombinations(groupTasks);
-    const possibleCombinations = allCombinations.filter(isLoanCombinationPossible);
-    
-    if (possibleCombinations.length === 0) {
-      console.log("No valid combinations found for maturity", maturity);
-      continue;
+const logPipelineMetrics = () => {
+  console.log(
+    `Batch pipeline (${deferredCuts} cuts deferred):\n` +
+    Object.values(stages).map(stage => `  ${describeStage(stage)}`).join("\n")
+  );
+};
+
+// Whether the open batch should be cut ahead of schedule, because a high-value
+// order in it would expire before the regular cut could be mined. Only Pending
+// orders not tried since the last cut count, so one that found no counterparty
+// does not cut a batch on every block.
+const flushesEarly = async (batchNumber: bigint, blockNumber: bigint, now: bigint): Promise<boolean> => {
+  if (operatorConfig.earlyFlushPrincipal === "") return false;
+
+  const tasks = [
+    ...(batches[batchNumber.toString()] ?? []),
+    ...[...residualBook.values()].map(residualTask),
+  ].filter(task =>
+    !triedOrders.has(task.taskId) && orderLifecycle.get(task.taskId)?.status === OrderStatus.PENDING
+  );
+  const blocksLeft = batchNumber + BigInt(MAX_BLOCKS_PER_BATCH) - blockNumber;
+  const urgent = await ordersForcingEarlyFlush(
+    tasks,
+    now,
+    now + blocksLeft * blockTimeSeconds,
+    operatorConfig.expiryMarginSeconds,
+    operatorConfig.earlyFlushPrincipal
+  );
+  if (urgent.length > 0) {
+    console.log(`Flushing batch ${batchNumber} early for expiring orders:`, urgent.map(task => task.taskId));
+  }
+  return urgent.length > 0;
+};
+
+// Settle the orders a LoanBatchResponse covered. Fills are known for batches
+// this operator submitted. The event only carries a hash of the task ids, so for
+// other operators' batches every open order is checked for a response instead.
+const recordBatchResponse = async (txHash: `0x${string}`, operator: `0x${string}`) => {
+  const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+  const [executed] = parseEventLogs({
+    logs: receipt.logs,
+    abi: ServiceManagerABI,
+    eventName: "BatchExecuted",
+  });
+  const batch = executed
+    ? `batch ${executed.args.batchId} (${executed.args.matchCount} matches)`
+    : "a batch";
+
+  const transaction = isAddressEqual(operator, account.address)
+    ? await publicClient.getTransaction({ hash: txHash })
+    : null;
+  const fills = transaction ? submittedFills.get(transaction.nonce) : undefined;
+  if (transaction && fills) {
+    submittedFills.delete(transaction.nonce);
+    settleSubmission(transaction.nonce, "success", txHash);
+    for (const [taskId, amount] of fills) {
+      fillOrder(taskId, amount, `Matched in ${batch}, tx ${txHash}`);
+      console.log(describeOrder(orderLifecycle.get(taskId)!).join("\n"));
     }
+    return;
+  }
+
+  const open = [...orderLifecycle.values()].filter(record => isOpen(record.status));
+  const responses = await Promise.all(
+    open.map(record => serviceManager.read.allTaskResponses([record.taskId]))
+  );
+  open.forEach((record, index) => {
+    if (responses[index] === "0x") return;
+    fillOrder(record.taskId, undefined, `Matched by operator ${operator} in ${batch}, tx ${txHash}`);
+    console.log(describeOrder(record).join("\n"));
+  });
+};
+
+// A batch on its way through the pipeline, filled in stage by stage
+type BatchContext = {
+  batchNumber: bigint;
+  orders: ResidualOrder[];                // as cut, with the principal each has left
+  originalTasks: Map<number, LoanTask>;   // as created on-chain, by taskId
+  matchedTasks: LoanTask[];               // what is to be submitted, narrowed down by each stage
+  transfers: LoanTransfer[];
+  executedTransfers: LoanTransfer[];
+  matchedTaskIds: Set<number>;
+  unmatchedReasons: Map<number, string>;
+  mismatched: Set<number>;
+  nonce: number | null;                   // of the batch transaction while it is pending
+};
+
+// Cut: take the open batch's new orders and the residual book, drop any that
+// were responded to or will expire before the batch can be mined, and mark the
+// rest InBatch. Returns null if nothing is left to match.
+const cutOrders = async (batchNumber: bigint): Promise<BatchContext | null> => {
+  const newTasks = batches[batchNumber.toString()] ?? [];
+  delete batches[batchNumber.toString()];
+  if (newTasks.length === 0 && residualBook.size === 0) {
+    console.log("No tasks in batch", batchNumber);
+    saveBatchProcessed(batchNumber, residualBook);
+    return null;
+  }
+
+  const batchBlock = await publicClient.getBlock({ blockNumber: batchNumber });
+
+  // Orders left open by earlier batches get another chance until they expire
+  // or are responded to on-chain
+  const pruned = await pruneResidualBook(residualBook, batchBlock.timestamp);
+  if (pruned.responded.length + pruned.expired.length > 0) {
+    console.log("Dropped orders from the residual book:", pruned);
+  }
+  for (const taskId of pruned.expired) {
+    updateOrderStatus(taskId, OrderStatus.EXPIRED, `Expired before batch ${batchNumber}`);
+  }
+
+  // Drop orders that will have expired by the time the batch can be mined, as
+  // a single one would revert the whole response
+  const latestBlock = await publicClient.getBlock();
+  const deadline = inclusionDeadline(latestBlock.timestamp, operatorConfig.expiryMarginSeconds);
+  const candidates = [...residualBook.values(), ...newTasks.map(newResidualOrder)];
+  const expiring = new Set(
+    splitByExpiry(candidates.map(order => order.task), deadline).expiring.map(task => task.taskId)
+  );
+  for (const taskId of expiring) {
+    residualBook.delete(taskId);
+    updateOrderStatus(
+      taskId,
+      OrderStatus.EXPIRED,
+      `Expires before batch ${batchNumber} can be mined (deadline ${deadline})`
+    );
+  }
+  if (expiring.size > 0) {
+    console.log("Dropped orders expiring before inclusion:", [...expiring]);
+  }
+
+  const orders = candidates.filter(order => !expiring.has(order.task.taskId));
+  if (orders.length === 0) {
+    console.log("No tasks in batch", batchNumber);
+    saveBatchProcessed(batchNumber, residualBook);
+    return null;
+  }
+  triedOrders.clear();
+  for (const order of orders) {
+    updateOrderStatus(order.task.taskId, OrderStatus.IN_BATCH, `Included in batch ${batchNumber}`);
+    triedOrders.add(order.task.taskId);
+  }
+
+  const carried = orders.filter(order => residualBook.has(order.task.taskId)).length;
+  console.log(`Processing batch ${batchNumber} with ${orders.length - carried} new and ${carried} carried loan orders`);
+
+  return {
+    batchNumber,
+    orders,
+    originalTasks: new Map(orders.map(order => [order.task.taskId, order.task])),
+    matchedTasks: [],
+    transfers: [],
+    executedTransfers: [],
+    matchedTaskIds: new Set(),
+    unmatchedReasons: new Map(),
+    mismatched: new Set(),
+    nonce: null,
+  };
+};
+
+// Match: run the matching strategy over every token book and maturity group
+const matchBatch = async (batch: BatchContext) => {
+  const tasks = batch.orders.map(residualTask);
 
-    // Compute results for all possible combinations
-    const allResults: LoanMatchingResult[] = [];
-    for (const combination of possibleCombinations) {
-      const result = computeLoanMatchingResult(combination);
-      if (result.feasible) {
-        allResults.push(result);
+  // Each loan token is its own market, matched independently of the others
+  for (const bookTasks of groupByToken(tasks).values()) {
+    const token = await resolveTokenInfo(bookTasks[0].orderData.token);
+    console.log(`Processing ${bookTasks.length} ${token.symbol} loan orders`);
+
+    // Borrower collateral is valued in the price source's quote token, so only
+    // that book can be checked. Without a price the book is not matched at all,
+    // rather than risk writing undercollateralized loans.
+    const bookOptions: MatchingOptions = { ...matchingOptions };
+    if (priceSource && tokenKey(priceSource.token.address) === tokenKey(token.address)) {
+      try {
+        bookOptions.collateralPrice = await priceSource.getPrice();
+        console.log(`ETH collateral price from ${priceSource.name}:`, formatTokenAmount(bookOptions.collateralPrice, token));
+      } catch (error) {
+        console.error(`Could not fetch ETH price from ${priceSource.name}, skipping ${token.symbol} orders:`, error);
+        for (const task of bookTasks) {
+          batch.unmatchedReasons.set(task.taskId, "No ETH price to check collateral against");
+        }
+        continue;
       }
     }
 
-    if (allResults.length === 0) {
-      console.log("No feasible matches found for maturity", maturity);
-      continue;
+    // Orders only match others with the same maturity
+    const maturityGroups = groupByMaturity(bookTasks);
+
+    // Process each maturity group separately
+    for (const [maturity, groupTasks] of maturityGroups) {
+      console.log(`Processing ${groupTasks.length} ${token.symbol} orders for maturity ${new Date(Number(maturity) * 1000).toISOString()}`);
+      
+      // Match lenders and borrowers for this maturity group
+      const bestResult = matchingStrategy.match(groupTasks, bookOptions);
+      bestResult.surplusPolicy = matchingOptions.surplusPolicy;
+      for (const matching of bestResult.matchings) {
+        if (isMatched(matching.feasibility)) continue;
+        for (const task of matching.loanTasks) {
+          batch.unmatchedReasons.set(task.taskId, matching.feasibility);
+        }
+      }
+      if (!bestResult.feasible) {
+        console.log(`No feasible ${token.symbol} matches found for maturity`, maturity);
+        continue;
+      }
+
+      console.log(`Best ${token.symbol} result for maturity`, maturity, {
+        totalMatched: formatTokenAmount(bestResult.totalMatchedAmount, token),
+        avgRate: bestResult.averageBorrowerRate.getValue() + "%",
+        efficiency: bestResult.matchingEfficiency.getValue(),
+        surplusPolicy: describeSurplusPolicy(bestResult.surplusPolicy),
+      });
+      if (bestResult.clearingRate !== undefined) {
+        console.log(`Clearing ${token.symbol} rate for maturity`, maturity, {
+          rate: Number(bestResult.clearingRate) / 100 + "%",
+          marginalOrders: bestResult.marginalOrders?.map(t => t.taskId),
+        });
+      }
+
+      // Compute the actual transfers needed
+      const { transfers } = computeLoanTransfers(
+        bestResult,
+        operatorConfig.pricingMode,
+        matchingOptions.surplusPolicy,
+        token
+      );
+      applyBlendedRates(bestResult, transfers);
+      console.log("Matching analysis:", describeLoanTransfers(bestResult, transfers, token));
+      console.log("Rate placement within order ranges:", Object.fromEntries(
+        Object.entries(bestResult.rangePositions ?? {}).map(([taskId, position]) => [taskId, position.getValue()])
+      ));
+      
+      // Collect transfers and matched tasks, submitting each order once as it was created on-chain
+      batch.transfers.push(...transfers);
+      for (const matching of bestResult.matchings) {
+        if (!isMatched(matching.feasibility)) continue;
+        for (const task of matching.loanTasks) {
+          if (!batch.matchedTaskIds.has(task.taskId)) {
+            batch.matchedTaskIds.add(task.taskId);
+            batch.matchedTasks.push(batch.originalTasks.get(task.taskId)!);
+          }
+        }
+      }
     }
+  }
+};
+
+// Narrow the submission down to the given tasks and transfers. Orders that
+// lost every match go back to waiting, with the reasons their matches were dropped.
+const narrowSubmission = (
+  batch: BatchContext,
+  stage: string,
+  tasks: LoanTask[],
+  transfers: LoanTransfer[],
+  dropped: DroppedMatch[]
+) => {
+  for (const { transfer, reason } of dropped) {
+    console.warn(
+      `${stage}: dropping match of lender ${transfer.lenderTaskId} and borrower ${transfer.borrowerTaskId} for ${transfer.amount}: ${reason}`
+    );
+  }
+  const keptTaskIds = new Set(tasks.map(task => task.taskId));
+  for (const task of batch.matchedTasks) {
+    if (keptTaskIds.has(task.taskId)) continue;
+    batch.matchedTaskIds.delete(task.taskId);
+    const reasons = dropped
+      .filter(({ transfer }) => transfer.lenderTaskId === task.taskId || transfer.borrowerTaskId === task.taskId)
+      .map(({ reason }) => reason);
+    batch.unmatchedReasons.set(task.taskId, `${stage}: ${[...new Set(reasons)].join(", ") || "no matches left"}`);
+  }
+  batch.matchedTasks = tasks;
+  batch.transfers = transfers;
+};
 
-    // Find the best matching result
-    const bestResult = computeBestLoanResult(allResults);
-    console.log("Best result for maturity", maturity, {
-      totalMatched: bestResult.totalMatchedAmount.toString(),
-      avgRate: bestResult.averageBorrowerRate.getValue() + "%",
-      efficiency: bestResult.matchingEfficiency.getValue(),
-    });
-
-    // Compute the actual transfers needed
-    const { transfers, analysis } = computeLoanTransfers(bestResult);
-    console.log("Matching analysis:", analysis);
-    
-    // Collect transfers and matched tasks
-    allTransfers.push(...transfers);
-    for (const matching of bestResult.matchings) {
-      allMatchedTasks.push(...matching.loanTasks);
+// Validate: leave out tasks that no longer match their on-chain hash, and any
+// match the contract's checks would reject
+const validateBatch = async (batch: BatchContext) => {
+  // Catch any task that would fail respondToLoanBatch's "Task not found" check
+  // before a transaction is sent, and leave it and its transfers out
+  const taskHashes = await Promise.all(
+    batch.matchedTasks.map(task => serviceManager.read.allTaskHashes([task.taskId]))
+  );
+  batch.mismatched = new Set(
+    batch.matchedTasks
+      .filter((task, index) => !matchesTaskHash(task, taskHashes[index]))
+      .map(task => task.taskId)
+  );
+  if (batch.mismatched.size > 0) {
+    console.error("Tasks do not match their on-chain hashes, leaving them out:", [...batch.mismatched]);
+    for (const taskId of batch.mismatched) {
+      batch.matchedTaskIds.delete(taskId);
+      updateOrderStatus(taskId, OrderStatus.REJECTED, "Task does not match allTaskHashes");
     }
+    batch.matchedTasks = batch.matchedTasks.filter(task => !batch.mismatched.has(task.taskId));
+    batch.transfers = batch.transfers.filter(transfer =>
+      !batch.mismatched.has(transfer.lenderTaskId) && !batch.mismatched.has(transfer.borrowerTaskId)
+    );
+  }
+
+  // Mirror the contract's validateMatches, plus per-order totals, so no match
+  // that would revert the batch is signed
+  const validated = validateLoanBatch(batch.matchedTasks, batch.transfers);
+  narrowSubmission(batch, "Failed validation", validated.tasks, validated.transfers, validated.rejections);
+};
+
+// Sign: simulate the batch against the current batch id, bisecting out any
+// matches that would revert, and sign what is left. The request is null if the
+// batch id moved on during simulation.
+const signBatch = async (
+  batch: BatchContext
+): Promise<{ batchId: bigint; request: TransactionRequest | null }> => {
+  const batchId = await readCurrentBatchId();
+  const viable = await findViableBatch(batchId, batch.matchedTasks, batch.transfers);
+  if (viable === null) {
+    return { batchId, request: null };
+  }
+  narrowSubmission(batch, "Reverted in simulation", viable.tasks, viable.transfers, viable.dropped);
+  if (batch.transfers.length === 0) {
+    throw new Error("No match in the batch survived simulation");
+  }
+
+  // Sign the viable matches, which may differ from the batch as matched
+  const referenceTaskIds = batch.matchedTasks.map(t => t.taskId);
+  const loanMatches = batch.transfers.map(toLoanMatch);
+  const signature = await signLoanBatch(batchId, loanMatches);
+
+  return {
+    batchId,
+    request: {
+      to: serviceManager.address,
+      data: encodeFunctionData({
+        abi: ServiceManagerABI,
+        functionName: "respondToLoanBatch",
+        args: [batch.matchedTasks.map(toLoanOrderTask), referenceTaskIds, loanMatches, signature],
+      }),
+      label: `respondToLoanBatch ${batchId}`,
+    },
+  };
+};
+
+// Submit: send the signed batch, in place of the previous attempt if that is
+// still pending, and remember what each order fills so the LoanBatchResponse
+// event can settle it
+const submitBatch = async ({ batch, batchId, request }: {
+  batch: BatchContext;
+  batchId: bigint;
+  request: TransactionRequest;
+}) => {
+  console.log(`Submitting loan matches to ServiceManager as batch ${batchId}...`);
+  if (batch.nonce === null) {
+    batch.nonce = await sendTransaction(request);
+  } else {
+    await replaceTransaction(batch.nonce, request);
+  }
+
+  const fills = summarizeOrderFills(batch.transfers);
+  const orderFills = new Map(
+    batch.matchedTasks.map(task => [task.taskId, fills.get(task.taskId)?.amount ?? BigInt(0)])
+  );
+  submittedFills.set(batch.nonce, orderFills);
+  saveSubmission(batch.nonce, batchId, orderFills);
+};
+
+// Confirm: wait for the batch transaction, giving up on it if the batch id
+// moves on while it is pending, as it would only revert
+const confirmBatch = async ({ batch, batchId }: {
+  batch: BatchContext;
+  batchId: bigint;
+}): Promise<TransactionReceipt | null> => {
+  return waitForTransaction(batch.nonce!, async () => await readCurrentBatchId() !== batchId);
+};
+
+// The batch pipeline. Orders are ingested one log at a time. A cut batch then
+// goes through every later stage before the next one starts, so no two batches
+// hold the same orders or compete for the nonce. While the flight's queue is
+// full, cuts are deferred and orders keep collecting in the open batch.
+const stages = {
+  blocks: createStage("blocks", handleBlock, { concurrency: 1, capacity: 100 }),
+  ingest: createStage("ingest", ingestOrder, { concurrency: 1, capacity: 1000 }),
+  flight: createStage("flight", (batchNumber: bigint) => processBatch(batchNumber), { concurrency: 1, capacity: 2 }),
+  cut: createStage("cut", cutOrders, { concurrency: 1, capacity: 1 }),
+  match: createStage("match", matchBatch, { concurrency: 1, capacity: 1 }),
+  validate: createStage("validate", validateBatch, { concurrency: 1, capacity: 1 }),
+  sign: createStage("sign", signBatch, { concurrency: 1, capacity: 1 }),
+  submit: createStage("submit", submitBatch, { concurrency: 1, capacity: 1 }),
+  confirm: createStage("confirm", confirmBatch, { concurrency: 1, capacity: 1 }),
+};
+let deferredCuts = 0;
+let shuttingDown = false;
+
+const processBatch = async (batchNumber: bigint) => {
+  // A batch not started, or not yet signed, when shutdown begins is left in
+  // the state store as it was cut, for the next run to pick up
+  if (shuttingDown) {
+    console.log(`Shutting down, leaving batch ${batchNumber} for the next run`);
+    return;
+  }
+  const batch = await stages.cut.run(batchNumber);
+  if (batch === null) return;
+  await stages.match.run(batch);
+  await stages.validate.run(batch);
+  if (shuttingDown) {
+    console.log(`Shutting down, leaving batch ${batchNumber} unsubmitted for the next run`);
+    return;
   }
 
   // If we have matches, submit them to the ServiceManager
-  if (allTransfers.length > 0) {
+  if (batch.transfers.length > 0) {
     try {
-      // Get reference task IDs for the response
-      const referenceTaskIds = allMatchedTasks.map(t => t.taskId);
-      
-      // Create loan match data structure for on-chain submission
-      const loanMatches = allTransfers.map(transfer => ({
-        lender: transfer.lender,
-        borrower: transfer.borrower,
-        principalAmount: transfer.amount,
-        interestRateBips: transfer.rate,
-        maturityTimestamp: transfer.maturityTimestamp,
-      }));
-
-      // Get message hash for signing
-      const messageHash = await serviceManager.read.getLoanBatchHash([
-        batchNumber,
-        loanMatches,
-      ]);
-
-      // Sign the message
-      const signature = await account.sign({
-        hash: messageHash,
-      });
+      // The contract checks the signature against its own currentBatchId, which
+      // another operator's batch can move on at any time. A batch caught out by
+      // that is re-signed for the new id and sent again, a bounded number of times.
+      for (let attempt = 0; ; attempt++) {
+        const retry = (why: string) => {
+          if (attempt >= operatorConfig.batchIdRetries) {
+            throw new Error(`${why}, giving up after ${attempt} retries`);
+          }
+          console.warn(`${why}, re-signing (retry ${attempt + 1} of ${operatorConfig.batchIdRetries})`);
+        };
 
-      console.log("Submitting loan matches to ServiceManager...");
-      
-      // Submit the batch response
-      const txHash = await serviceManager.write.respondToLoanBatch([
-        allMatchedTasks,
-        referenceTaskIds,
-        loanMatches,
-        signature,
-      ]);
-
-      // Wait for confirmation
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: txHash,
-      });
-      
-      console.log("Loan batch successfully submitted!", {
-        txHash,
-        gasUsed: receipt.gasUsed.toString(),
-        matchCount: allTransfers.length,
-      });
+        const { batchId, request } = await stages.sign.run(batch);
+        if (request === null) {
+          retry(`Batch id ${batchId} went stale during simulation`);
+          continue;
+        }
+        await stages.submit.run({ batch, batchId, request });
+
+        const receipt = await stages.confirm.run({ batch, batchId });
+        if (receipt === null) {
+          retry(`Batch id ${batchId} was taken while the loan batch transaction was pending`);
+          continue;
+        }
+        const txHash = receipt.transactionHash;
+        if (receipt.status !== "success") {
+          submittedFills.delete(batch.nonce!);
+          settleSubmission(batch.nonce!, "reverted", txHash);
+          batch.nonce = null;
+          if (await readCurrentBatchId() !== batchId) {
+            retry(`Loan batch transaction ${txHash} reverted after batch id ${batchId} was taken`);
+            continue;
+          }
+          throw new Error(`Loan batch transaction ${txHash} reverted`);
+        }
+        
+        console.log("Loan batch successfully submitted!", {
+          txHash,
+          batchId,
+          gasUsed: receipt.gasUsed.toString(),
+          matchCount: batch.transfers.length,
+          tokens: [...new Set(batch.transfers.map(transfer => transfer.token))],
+        });
+        batch.executedTransfers = batch.transfers;
+        break;
+      }
 
     } catch (error) {
       console.error("Error submitting loan batch:", error);
+      // Free the nonce of a batch transaction that is no longer wanted. The
+      // batch itself may still be mined first, so whatever lands is waited for.
+      const nonce = batch.nonce;
+      if (nonce !== null && hasPendingTransaction(nonce)) {
+        await cancelTransaction(nonce)
+          .catch(cancelError => console.error(`Error cancelling transaction at nonce ${nonce}:`, cancelError));
+        const receipt = await waitForTransaction(nonce)
+          .catch(waitError => {
+            console.error(`Error waiting for transaction at nonce ${nonce}:`, waitError);
+            return null;
+          });
+        if (settleMinedSubmission(nonce, receipt)) {
+          console.log("Loan batch was mined before it could be cancelled:", receipt!.transactionHash);
+          batch.executedTransfers = batch.transfers;
+        }
+      }
     }
   } else {
     console.log("No matches found in batch", batchNumber);
   }
 
-  // Clean up processed batch
-  delete batches[batchNumber.toString()];
+  settleBatch(batch);
+};
+
+// Settle a batch submission from what was mined at its nonce: the batch, our
+// cancellation, or nothing we can tell apart. A batch that went through is left
+// for its LoanBatchResponse to settle and true is returned.
+const settleMinedSubmission = (nonce: number, receipt: TransactionReceipt | null): boolean => {
+  if (receipt?.to && isAddressEqual(receipt.to, serviceManager.address)) {
+    if (receipt.status === "success") return true;
+    submittedFills.delete(nonce);
+    settleSubmission(nonce, "reverted", receipt.transactionHash);
+    return false;
+  }
+  submittedFills.delete(nonce);
+  settleSubmission(nonce, "cancelled", receipt?.transactionHash ?? null);
+  return false;
+};
+
+// Orders that were left out, or whose batch failed, wait for the next one.
+// Submitted orders stay InBatch until their LoanBatchResponse arrives.
+const settleBatch = (batch: BatchContext) => {
+  const executed = batch.executedTransfers.length > 0;
+  for (const order of batch.orders) {
+    const taskId = order.task.taskId;
+    if (batch.mismatched.has(taskId)) continue;
+    if (!batch.matchedTaskIds.has(taskId)) {
+      const reason = batch.unmatchedReasons.get(taskId) ?? LoanFeasibility.NONE;
+      updateOrderStatus(taskId, OrderStatus.PENDING, `Not matched in batch ${batch.batchNumber}: ${reason}`);
+    } else if (!executed) {
+      updateOrderStatus(taskId, OrderStatus.PENDING, `Matched in batch ${batch.batchNumber} but the submission failed`);
+    }
+  }
+
+  // Carry what is left of every order into the next batch. Fills only count
+  // once the batch has executed on-chain.
+  carryForward(
+    residualBook,
+    batch.orders.filter(order => !batch.mismatched.has(order.task.taskId)),
+    batch.executedTransfers
+  );
+  saveBatchProcessed(batch.batchNumber, residualBook);
+  console.log("Residual book size:", residualBook.size);
+};
+
+// Stop taking in orders and cutting batches, let the batch in flight finish
+// and wait for pending transactions, all up to the shutdown deadline. Whatever
+// is left is already in the state store or the pending transactions file.
+// Returns whether any work was abandoned at the deadline.
+const shutDown = async (watchers: Awaited<ReturnType<typeof startMonitoring>>): Promise<boolean> => {
+  shuttingDown = true;
+  watchers.unwatchTasks();
+  watchers.unwatchBlocks();
+
+  const deadline = Date.now() + Number(operatorConfig.shutdownTimeoutSeconds) * 1000;
+  let timer: NodeJS.Timeout | undefined;
+  const drained = await Promise.race([
+    Promise.all([stages.blocks.idle(), stages.ingest.idle(), stages.flight.idle()]).then(() => true),
+    new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), deadline - Date.now());
+    }),
+  ]);
+  clearTimeout(timer);
+
+  // Cancellations and transactions recovered at startup are waited on in the background
+  while (pendingTransactions().length > 0 && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, publicClient.pollingInterval));
+  }
+  const pending = pendingTransactions();
+
+  // Batch responses may still settle orders until the very end
+  watchers.unwatchResponses();
+  logPipelineMetrics();
+
+  if (!drained) {
+    console.error("Batch processing did not finish before the shutdown deadline, abandoning it");
+  }
+  if (pending.length > 0) {
+    console.error(
+      "Transactions still pending at the shutdown deadline, they will be picked up on the next start:",
+      pending.map(transaction => `${transaction.label} at nonce ${transaction.nonce}`)
+    );
+  }
+  closeStore();
+  console.log("Operator stopped");
+  return !drained || pending.length > 0;
 };
 
 // Main operator function
 async function main() {
   console.log("Starting DebtHook loan matching operator...");
   console.log("Operator address:", account.address);
+  console.log("Matching strategy:", matchingStrategy.name);
+  console.log("Pricing mode:", operatorConfig.pricingMode);
+  console.log("Surplus policy:", describeSurplusPolicy(matchingOptions.surplusPolicy));
+  console.log("Loan tokens:", [DEFAULT_LOAN_TOKEN, ...operatorConfig.tokens].map(token => token.symbol).join(", "));
+  console.log("Collateral price source:", priceSource ? priceSource.name : "none, collateral is not checked");
+  console.log("Lender minimum collateral ratios:", Object.fromEntries(
+    [...operatorConfig.lenderMinCollateralRatios].map(([lender, bips]) => [lender, `${bips} bips`])
+  ));
+  if ([...operatorConfig.lenderMinCollateralRatios.values()].some(bips => bips > BigInt(0)) && !priceSource) {
+    throw new Error("LENDER_MIN_COLLATERAL_RATIOS needs a PRICE_SOURCE to value borrower collateral");
+  }
+  console.log("Expiry margin:", operatorConfig.expiryMarginSeconds.toString() + "s");
+  console.log("Batch id retries:", operatorConfig.batchIdRetries);
+  console.log("Early flush principal:", operatorConfig.earlyFlushPrincipal || "disabled");
+  console.log("State database:", operatorConfig.stateDatabase);
+  console.log("Fee bump:", `${operatorConfig.txFeeBumpBips} bips after ${operatorConfig.txReplaceTimeoutSeconds}s`);
+
+  openStore(operatorConfig.stateDatabase);
+  restoreState();
+
+  // Resume transactions a previous run left pending before sending new ones. A
+  // batch response signed for a batch id that has since been taken can only
+  // revert, so its nonce is freed, and the submission is settled by what lands.
+  const recovered = await recoverPendingTransactions(
+    transaction => isLoanBatchStale(transaction.data),
+    (transaction, receipt) => settleMinedSubmission(transaction.nonce, receipt)
+  );
+  if (recovered.length > 0) {
+    console.log("Recovered pending transactions:", recovered.map(transaction => transaction.nonce));
+  }
   
   // Register as an operator if not already registered
   await registerOperator();
   
+  // Rebuild the open orders from the logs of blocks missed while stopped, then
+  // scan again once the watchers are up to close the gap before they started
+  await settleRespondedOrders();
+  await checkRestoredOrders();
+  const backfillFrom = lastProcessedBlock !== null
+    ? (lastProcessedBlock > BACKFILL_OVERLAP_BLOCKS ? lastProcessedBlock - BACKFILL_OVERLAP_BLOCKS : BigInt(0))
+    : operatorConfig.backfillFromBlock;
+  const backfillTo = await publicClient.getBlockNumber();
+  if (backfillFrom === null) {
+    console.log("No checkpoint or BACKFILL_FROM_BLOCK, not scanning for missed loan orders");
+  } else {
+    await backfillOrders(backfillFrom, backfillTo);
+  }
+
   // Start monitoring for loan orders
-  const { unwatchTasks, unwatchBlocks } = await startMonitoring();
+  const watchers = await startMonitoring();
+  if (backfillFrom !== null) {
+    await backfillOrders(backfillTo + BigInt(1), await publicClient.getBlockNumber());
+  }
   
   console.log("Operator is now monitoring for loan orders...");
   
-  // Handle graceful shutdown
-  process.on("SIGINT", () => {
-    console.log("Shutting down operator...");
-    unwatchTasks();
-    unwatchBlocks();
-    process.exit(0);
-  });
+  // Handle graceful shutdown. A second signal exits without waiting.
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      console.warn(`${signal} received again, exiting without waiting for work in flight`);
+      process.exit(1);
+    }
+    console.log(`${signal} received, shutting down operator...`);
+    shutDown(watchers)
+      .then(abandoned => process.exit(abandoned ? 1 : 0))
+      .catch(error => {
+        console.error("Error shutting down:", error);
+        process.exit(1);
+      });
+  };
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
 }
 
 // Error handling
@@ -0,0 +1,144 @@
+import { LoanTask } from "./utils";
+
+// Where an order is in its life, as far as this operator has seen
+export enum OrderStatus {
+  PENDING = "Pending",                    // open and waiting for a batch
+  IN_BATCH = "InBatch",                   // being matched in the current batch
+  PARTIALLY_FILLED = "PartiallyFilled",   // responded to with part of its principal lent or borrowed
+  FILLED = "Filled",                      // responded to with all of its principal
+  EXPIRED = "Expired",                    // expiry passed before it was responded to
+  CANCELLED = "Cancelled",                // withdrawn by its creator; no contract event reports this yet
+  REJECTED = "Rejected",                  // turned away for good, it can never be submitted
+}
+
+// One status change, with when the operator saw it and why it happened
+export type OrderTransition = {
+  status: OrderStatus;
+  timestamp: number;      // milliseconds since the epoch
+  reason: string;
+};
+
+export type OrderRecord = {
+  taskId: number;
+  principalAmount: bigint;
+  filledAmount: bigint;
+  status: OrderStatus;
+  history: OrderTransition[];
+};
+
+// Every order the operator has seen, by taskId
+export type OrderLifecycle = Map<number, OrderRecord>;
+
+// A task is responded to at most once on-chain, so every status but Pending and
+// InBatch is final. Another operator may respond to an order while it waits.
+const allowedTransitions: Record<OrderStatus, OrderStatus[]> = {
+  [OrderStatus.PENDING]: [
+    OrderStatus.IN_BATCH,
+    OrderStatus.PARTIALLY_FILLED,
+    OrderStatus.FILLED,
+    OrderStatus.EXPIRED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REJECTED,
+  ],
+  [OrderStatus.IN_BATCH]: [
+    OrderStatus.PENDING,
+    OrderStatus.PARTIALLY_FILLED,
+    OrderStatus.FILLED,
+    OrderStatus.EXPIRED,
+    OrderStatus.CANCELLED,
+    OrderStatus.REJECTED,
+  ],
+  [OrderStatus.PARTIALLY_FILLED]: [],
+  [OrderStatus.FILLED]: [],
+  [OrderStatus.EXPIRED]: [],
+  [OrderStatus.CANCELLED]: [],
+  [OrderStatus.REJECTED]: [],
+};
+
+// Orders in these statuses can still be matched
+export function isOpen(status: OrderStatus): boolean {
+  return allowedTransitions[status].length > 0;
+}
+
+// Start tracking an order as Pending when its NewLoanOrderCreated event arrives
+export function trackOrder(
+  lifecycle: OrderLifecycle,
+  task: LoanTask,
+  reason: string,
+  timestamp: number = Date.now()
+): OrderRecord {
+  const record: OrderRecord = {
+    taskId: task.taskId,
+    principalAmount: task.principalAmount,
+    filledAmount: BigInt(0),
+    status: OrderStatus.PENDING,
+    history: [{ status: OrderStatus.PENDING, timestamp, reason }],
+  };
+  lifecycle.set(task.taskId, record);
+  return record;
+}
+
+// Move an order to a new status. Unknown orders and transitions out of a final
+// status are refused with a warning, so a late or replayed event cannot rewrite
+// what already happened.
+export function transitionOrder(
+  lifecycle: OrderLifecycle,
+  taskId: number,
+  status: OrderStatus,
+  reason: string,
+  timestamp: number = Date.now()
+): boolean {
+  const record = lifecycle.get(taskId);
+  if (!record) {
+    console.warn(`Order ${taskId} is not tracked, ignoring ${status}: ${reason}`);
+    return false;
+  }
+  if (record.status === status) return true;
+  if (!allowedTransitions[record.status].includes(status)) {
+    console.warn(`Order ${taskId} cannot move from ${record.status} to ${status}: ${reason}`);
+    return false;
+  }
+
+  record.status = status;
+  record.history.push({ status, timestamp, reason });
+  return true;
+}
+
+// Record that a batch response covered an order. The filled amount is known
+// for batches this operator submitted; for anyone else's it is not, and the
+// order is marked Filled.
+export function recordFill(
+  lifecycle: OrderLifecycle,
+  taskId: number,
+  filledAmount: bigint | undefined,
+  reason: string,
+  timestamp: number = Date.now()
+): boolean {
+  const record = lifecycle.get(taskId);
+  const partial = record !== undefined &&
+    filledAmount !== undefined &&
+    filledAmount < record.principalAmount;
+
+  if (!transitionOrder(
+    lifecycle,
+    taskId,
+    partial ? OrderStatus.PARTIALLY_FILLED : OrderStatus.FILLED,
+    reason,
+    timestamp
+  )) {
+    return false;
+  }
+  record!.filledAmount = filledAmount ?? record!.principalAmount;
+  return true;
+}
+
+// Answer "what happened to my order?": the order's current status and every
+// step that led to it
+export function describeOrder(record: OrderRecord): string[] {
+  return [
+    `Order ${record.taskId}: ${record.status}, ${record.filledAmount} of ${record.principalAmount} filled`,
+    ...record.history.map(transition =>
+      `${new Date(transition.timestamp).toISOString()} ${transition.status}: ${transition.reason}`
+    ),
+  ];
+}
@@ -1,18 +1,27 @@
-import { formatEther } from "viem";
+import {
+  borrowerCeiling,
+  boundedTransferAmount,
+  collateralAccepted,
+  lenderFloor,
+  ratesCross,
+} from "./constraints";
 import { Mathb } from "./math";
-import { LoanTask, LoanFeasibility, LoanMatching, LoanMatchingResult, LoanOrderData } from "./utils";
+import { DEFAULT_SURPLUS_POLICY, pairRate, shareSurplus, summarizeOrderFills } from "./pricing";
+import { DEFAULT_LOAN_TOKEN, TokenInfo, formatTokenAmount } from "./tokens";
+import {
+  LoanTask,
+  LoanFeasibility,
+  LoanMatching,
+  LoanMatchingResult,
+  LoanOrderData,
+  LoanTransfer,
+  PricingMode,
+  SurplusPolicy,
+} from "./utils";
 import bigDecimal from "js-big-decimal";
 
 const RoundingModes = bigDecimal.RoundingModes;
 
-interface LoanTransfer {
-  lender: `0x${string}`;
-  borrower: `0x${string}`;
-  amount: bigint;
-  rate: bigint;
-  maturityTimestamp: bigint;
-}
-
 // Generate all possible combinations of loan tasks for matching
 export function generateLoanTaskCombinations(tasks: LoanTask[]): LoanTask[][][] {
   if (tasks.length === 0) return [];
@@ -67,14 +76,20 @@ export function isLoanCombinationPossible(combination: LoanTask[][]): boolean {
       return false;
     }
 
-    // Check if there's rate overlap
-    const minLenderRate = Math.min(...lenders.map(l => Number(l.interestRateBips)));
-    const maxBorrowerRate = Math.max(...borrowers.map(b => Number(b.interestRateBips)));
+    // Check there is one rate inside every lender's floor and borrower's ceiling
+    const maxLenderFloor = Math.max(...lenders.map(l => Number(lenderFloor(l))));
+    const minBorrowerCeiling = Math.min(...borrowers.map(b => Number(borrowerCeiling(b))));
     
-    if (minLenderRate > maxBorrowerRate) {
+    if (maxLenderFloor > minBorrowerCeiling) {
       return false; // No rate overlap
     }
 
+    // Matched amounts are spread across every pair in the group, so every
+    // lender must accept every borrower's collateral
+    if (!lenders.every(lender => borrowers.every(borrower => collateralAccepted(lender, borrower)))) {
+      return false;
+    }
+
     // Check maturity compatibility
     const lenderMaturities = new Set(lenders.map(l => l.maturityTimestamp.toString()));
     const borrowerMaturities = new Set(borrowers.map(b => b.maturityTimestamp.toString()));
@@ -90,18 +105,11 @@ export function isLoanCombinationPossible(combination: LoanTask[][]): boolean {
 
 // Compute the result of a loan matching combination
 export function computeLoanMatchingResult(
-  combination: LoanTask[][]
+  combination: LoanTask[][],
+  surplusPolicy: SurplusPolicy = DEFAULT_SURPLUS_POLICY
 ): LoanMatchingResult {
-  const result: Partial<LoanMatchingResult> = {};
   const matchings: LoanMatching[] = [];
 
-  // Initialize totals
-  let totalLenderAmount = BigInt(0);
-  let totalBorrowerAmount = BigInt(0);
-  let totalMatchedAmount = BigInt(0);
-  let weightedLenderRate = BigInt(0);
-  let weightedBorrowerRate = BigInt(0);
-
   // Process each matching group
   for (const matching of combination) {
     const lenders = matching.filter(task => task.isLender);
@@ -110,12 +118,6 @@ export function computeLoanMatchingResult(
     // Single task - no matching possible
     if (matching.length === 1) {
       const task = matching[0];
-      if (task.isLender) {
-        totalLenderAmount += task.principalAmount;
-      } else {
-        totalBorrowerAmount += task.principalAmount;
-      }
-      
       matchings.push({
         loanTasks: [task],
         feasibility: LoanFeasibility.NONE,
@@ -142,23 +144,23 @@ export function computeLoanMatchingResult(
     // Calculate available amounts
     let availableLenderAmount = BigInt(0);
     let availableBorrowerAmount = BigInt(0);
-    let minLenderRate = BigInt(Number.MAX_SAFE_INTEGER);
-    let maxBorrowerRate = BigInt(0);
+    let maxLenderFloor = BigInt(0);
+    let minBorrowerCeiling = BigInt(Number.MAX_SAFE_INTEGER);
 
     for (const lender of lenders) {
       availableLenderAmount += lender.principalAmount;
-      minLenderRate = Mathb.min(minLenderRate, lender.interestRateBips);
+      maxLenderFloor = Mathb.max(maxLenderFloor, lenderFloor(lender));
       matchingResult.totalLenderAmount += lender.principalAmount;
     }
 
     for (const borrower of borrowers) {
       availableBorrowerAmount += borrower.principalAmount;
-      maxBorrowerRate = Mathb.max(maxBorrowerRate, borrower.interestRateBips);
+      minBorrowerCeiling = Mathb.min(minBorrowerCeiling, borrowerCeiling(borrower));
       matchingResult.totalBorrowerAmount += borrower.principalAmount;
     }
 
-    // Check rate compatibility
-    if (minLenderRate > maxBorrowerRate) {
+    // Check rate compatibility: the one group rate must satisfy every order's range
+    if (maxLenderFloor > minBorrowerCeiling) {
       matchingResult.feasibility = LoanFeasibility.NO_RATE_OVERLAP;
       matchings.push(matchingResult);
       continue;
@@ -179,16 +181,16 @@ export function computeLoanMatchingResult(
     const matchedAmountLocal = Mathb.min(availableLenderAmount, availableBorrowerAmount);
     matchingResult.matchedAmount = matchedAmountLocal;
 
-    // Calculate effective rate (weighted average between min lender and max borrower rates)
-    // This ensures both sides get a fair rate
-    const effectiveRate = (minLenderRate + maxBorrowerRate) / BigInt(2);
+    // Place the effective rate inside the shared range per the surplus policy
+    const effectiveRate = shareSurplus(
+      maxLenderFloor,
+      minBorrowerCeiling,
+      surplusPolicy,
+      availableLenderAmount,
+      availableBorrowerAmount
+    );
     matchingResult.effectiveRate = effectiveRate;
 
-    // Update totals
-    totalMatchedAmount += matchedAmountLocal;
-    weightedLenderRate += effectiveRate * matchedAmountLocal;
-    weightedBorrowerRate += effectiveRate * matchedAmountLocal;
-
     // Determine feasibility type
     if (availableLenderAmount === availableBorrowerAmount) {
       matchingResult.feasibility = LoanFeasibility.FULL_MATCH;
@@ -199,10 +201,51 @@ export function computeLoanMatchingResult(
     }
 
     matchings.push(matchingResult);
+  }
+
+  return summarizeLoanMatchings(combination.flat(), matchings);
+}
+
+// Report tasks that took part in no match as single-task groups, with the
+// reason they were turned away when one is known
+export function singleTaskMatchings(
+  tasks: LoanTask[],
+  reasons: Map<number, LoanFeasibility> = new Map()
+): LoanMatching[] {
+  return tasks.map(task => ({
+    loanTasks: [task],
+    feasibility: reasons.get(task.taskId) ?? LoanFeasibility.NONE,
+    totalLenderAmount: task.isLender ? task.principalAmount : BigInt(0),
+    totalBorrowerAmount: !task.isLender ? task.principalAmount : BigInt(0),
+    matchedAmount: BigInt(0),
+    effectiveRate: BigInt(0),
+    maturityTimestamp: task.maturityTimestamp,
+  }));
+}
 
-    // Update global totals
-    totalLenderAmount += matchingResult.totalLenderAmount;
-    totalBorrowerAmount += matchingResult.totalBorrowerAmount;
+// Aggregate matchings over a set of tasks into batch-level totals and metrics
+export function summarizeLoanMatchings(
+  tasks: LoanTask[],
+  matchings: LoanMatching[]
+): LoanMatchingResult {
+  const result: Partial<LoanMatchingResult> = {};
+
+  let totalLenderAmount = BigInt(0);
+  let totalBorrowerAmount = BigInt(0);
+  let totalMatchedAmount = BigInt(0);
+  let weightedRate = BigInt(0);
+
+  for (const task of tasks) {
+    if (task.isLender) {
+      totalLenderAmount += task.principalAmount;
+    } else {
+      totalBorrowerAmount += task.principalAmount;
+    }
+  }
+
+  for (const matching of matchings) {
+    totalMatchedAmount += matching.matchedAmount;
+    weightedRate += matching.effectiveRate * matching.matchedAmount;
   }
 
   // Calculate final metrics
@@ -217,7 +260,7 @@ export function computeLoanMatchingResult(
   
   // Calculate average rates
   if (totalMatchedAmount > BigInt(0)) {
-    result.averageLenderRate = new bigDecimal(weightedLenderRate.toString())
+    result.averageLenderRate = new bigDecimal(weightedRate.toString())
       .divide(new bigDecimal(totalMatchedAmount.toString()), 4, RoundingModes.FLOOR);
     result.averageBorrowerRate = result.averageLenderRate; // Same rate for both sides
   } else {
@@ -279,30 +322,61 @@ export function computeBestLoanResult(possibleResults: LoanMatchingResult[]): Lo
   return bestResult || possibleResults[0];
 }
 
-// Compute the loan transfers that need to happen
-export function computeLoanTransfers(result: LoanMatchingResult): {
-  transfers: LoanTransfer[];
-  analysis: Record<string, string>;
-} {
+// Compute the loan transfers that need to happen. The result must come from a
+// single token's book; amounts are described in that token's units.
+export function computeLoanTransfers(
+  result: LoanMatchingResult,
+  pricingMode: PricingMode = PricingMode.UNIFORM,
+  surplusPolicy: SurplusPolicy = DEFAULT_SURPLUS_POLICY,
+  token: TokenInfo = DEFAULT_LOAN_TOKEN
+): { transfers: LoanTransfer[] } {
   const transfers: LoanTransfer[] = [];
-  const analysis: Record<string, string> = {};
 
   for (const matching of result.matchings) {
-    if (matching.feasibility === LoanFeasibility.NONE || 
-        matching.feasibility === LoanFeasibility.NO_RATE_OVERLAP ||
-        matching.feasibility === LoanFeasibility.MATURITY_MISMATCH) {
-      
-      for (const task of matching.loanTasks) {
-        analysis[task.taskId.toString()] = `Task ${task.taskId} could not be matched: ${matching.feasibility}`;
-      }
-      continue;
-    }
+    if (!isMatched(matching.feasibility)) continue;
 
     const lenders = matching.loanTasks.filter(t => t.isLender);
     const borrowers = matching.loanTasks.filter(t => !t.isLender);
     
-    // Distribute matched amount proportionally
-    let remainingAmount = matching.matchedAmount;
+    // Distribute matched amount proportionally, drawing down each lender's share
+    const lenderRemaining = new Map<number, bigint>();
+    const lent = new Map<number, bigint>();
+    for (const lender of lenders) {
+      lenderRemaining.set(
+        lender.taskId,
+        matching.totalLenderAmount > BigInt(0)
+          ? (lender.principalAmount * matching.matchedAmount) / matching.totalLenderAmount
+          : BigInt(0)
+      );
+      lent.set(lender.taskId, BigInt(0));
+    }
+
+    // Move up to `available` from the lender to the borrower, or nothing if
+    // that would break either order's principal bounds or the pair's limits
+    const transfer = (lender: LoanTask, borrower: LoanTask, available: bigint): bigint => {
+      // Discriminatory pairs must be priced inside both limits on their own
+      if (pricingMode === PricingMode.DISCRIMINATORY && !ratesCross(lender, borrower)) return BigInt(0);
+      if (!collateralAccepted(lender, borrower)) return BigInt(0);
+
+      const transferAmount = boundedTransferAmount(lender, borrower, available);
+      if (transferAmount > BigInt(0)) {
+        transfers.push({
+          lender: lender.sender,
+          borrower: borrower.sender,
+          token: token.address,
+          amount: transferAmount,
+          rate: pricingMode === PricingMode.DISCRIMINATORY
+            ? pairRate(lender, borrower, surplusPolicy)
+            : matching.effectiveRate,
+          maturityTimestamp: matching.maturityTimestamp,
+          lenderTaskId: lender.taskId,
+          borrowerTaskId: borrower.taskId,
+        });
+        lenderRemaining.set(lender.taskId, lenderRemaining.get(lender.taskId)! - transferAmount);
+        lent.set(lender.taskId, lent.get(lender.taskId)! + transferAmount);
+      }
+      return transferAmount;
+    };
     
     for (const borrower of borrowers) {
       const borrowerShare = matching.totalBorrowerAmount > BigInt(0)
@@ -311,41 +385,60 @@ export function computeLoanTransfers(result: LoanMatchingResult): {
       
       let borrowerRemaining = borrowerShare;
       
+      // Fragments outside either order's principal bounds are dropped and the
+      // borrower's share moves on to the next lender
       for (const lender of lenders) {
         if (borrowerRemaining === BigInt(0)) break;
-        
-        const lenderShare = matching.totalLenderAmount > BigInt(0)
-          ? (lender.principalAmount * matching.matchedAmount) / matching.totalLenderAmount
-          : BigInt(0);
-        
-        const transferAmount = Mathb.min(borrowerRemaining, lenderShare);
-        
-        if (transferAmount > BigInt(0)) {
-          transfers.push({
-            lender: lender.sender,
-            borrower: borrower.sender,
-            amount: transferAmount,
-            rate: matching.effectiveRate,
-            maturityTimestamp: matching.maturityTimestamp,
-          });
-          
-          borrowerRemaining -= transferAmount;
-        }
+        const lenderShare = lenderRemaining.get(lender.taskId)!;
+        if (lenderShare <= BigInt(0)) continue;
+        borrowerRemaining -= transfer(lender, borrower, Mathb.min(borrowerRemaining, lenderShare));
+      }
+
+      // Whatever is left goes to lenders that still have principal to spare
+      // beyond their share, so rounding and dropped fragments are not lost
+      for (const lender of lenders) {
+        if (borrowerRemaining === BigInt(0)) break;
+        const free = lender.principalAmount - lent.get(lender.taskId)!;
+        if (free <= BigInt(0)) continue;
+        borrowerRemaining -= transfer(lender, borrower, Mathb.min(borrowerRemaining, free));
       }
-      
-      analysis[borrower.taskId.toString()] = `Borrower ${borrower.taskId} matched ${formatEther(borrowerShare)} USDC at ${Number(matching.effectiveRate) / 100}% APR`;
     }
-    
-    for (const lender of lenders) {
-      const lenderShare = matching.totalLenderAmount > BigInt(0)
-        ? (lender.principalAmount * matching.matchedAmount) / matching.totalLenderAmount
-        : BigInt(0);
-      
-      analysis[lender.taskId.toString()] = `Lender ${lender.taskId} matched ${formatEther(lenderShare)} USDC at ${Number(matching.effectiveRate) / 100}% APR`;
+  }
+
+  return { transfers };
+}
+
+// Describe each order of a result for the logs, keyed by taskId: why it could
+// not be matched, or its total fill across all of its transfers. An order in
+// several pair matchings is described once.
+export function describeLoanTransfers(
+  result: LoanMatchingResult,
+  transfers: LoanTransfer[],
+  token: TokenInfo = DEFAULT_LOAN_TOKEN
+): Record<string, string> {
+  const analysis: Record<string, string> = {};
+  const matchedTasks = new Map<number, LoanTask>();
+
+  for (const matching of result.matchings) {
+    for (const task of matching.loanTasks) {
+      if (isMatched(matching.feasibility)) {
+        matchedTasks.set(task.taskId, task);
+      } else if (!matchedTasks.has(task.taskId)) {
+        analysis[task.taskId.toString()] = `Task ${task.taskId} could not be matched: ${matching.feasibility}`;
+      }
     }
   }
 
-  return { transfers, analysis };
+  const fills = summarizeOrderFills(transfers);
+  for (const task of matchedTasks.values()) {
+    const fill = fills.get(task.taskId);
+    const side = task.isLender ? "Lender" : "Borrower";
+    analysis[task.taskId.toString()] = fill
+      ? `${side} ${task.taskId} matched ${formatTokenAmount(fill.amount, token)} at ${fill.rate.divide(new bigDecimal(100), 4).getValue()}% APR`
+      : `${side} ${task.taskId} matched ${formatTokenAmount(BigInt(0), token)}`;
+  }
+
+  return analysis;
 }
 
 // Helper function to find common maturity dates
@@ -365,11 +458,7 @@ function findCommonMaturities(lenders: LoanTask[], borrowers: LoanTask[]): bigin
 
 // Helper function to determine overall feasibility type
 function determineFeasibilityType(matchings: LoanMatching[]): LoanFeasibility {
-  const hasMatches = matchings.some(m => 
-    m.feasibility === LoanFeasibility.FULL_MATCH ||
-    m.feasibility === LoanFeasibility.PARTIAL_LENDER ||
-    m.feasibility === LoanFeasibility.PARTIAL_BORROWER
-  );
+  const hasMatches = matchings.some(m => isMatched(m.feasibility));
   
   if (!hasMatches) {
     return LoanFeasibility.NONE;
@@ -377,15 +466,19 @@ function determineFeasibilityType(matchings: LoanMatching[]): LoanFeasibility {
   
   const allFull = matchings.every(m => 
     m.feasibility === LoanFeasibility.FULL_MATCH || 
-    m.feasibility === LoanFeasibility.NONE
+    !isMatched(m.feasibility)
   );
   
   if (allFull) {
     return LoanFeasibility.FULL_MATCH;
   }
   
-  const hasPartialLender = matchings.some(m => m.feasibility === LoanFeasibility.PARTIAL_LENDER);
-  const hasPartialBorrower = matchings.some(m => m.feasibility === LoanFeasibility.PARTIAL_BORROWER);
+  const hasPartialLender = matchings.some(m =>
+    m.feasibility === LoanFeasibility.PARTIAL_LENDER || m.feasibility === LoanFeasibility.PARTIAL_BOTH
+  );
+  const hasPartialBorrower = matchings.some(m =>
+    m.feasibility === LoanFeasibility.PARTIAL_BORROWER || m.feasibility === LoanFeasibility.PARTIAL_BOTH
+  );
   
   if (hasPartialLender && hasPartialBorrower) {
     return LoanFeasibility.PARTIAL_BOTH;
@@ -396,6 +489,26 @@ function determineFeasibilityType(matchings: LoanMatching[]): LoanFeasibility {
   }
 }
 
+// Whether a matching filled anything, as opposed to recording why it could not
+export function isMatched(feasibility: LoanFeasibility): boolean {
+  return feasibility === LoanFeasibility.FULL_MATCH ||
+    feasibility === LoanFeasibility.PARTIAL_LENDER ||
+    feasibility === LoanFeasibility.PARTIAL_BORROWER ||
+    feasibility === LoanFeasibility.PARTIAL_BOTH;
+}
+
+// Reasons recorded for tasks that ended up in no match, keyed by taskId
+export function rejectionReasons(result: LoanMatchingResult): Map<number, LoanFeasibility> {
+  const reasons = new Map<number, LoanFeasibility>();
+  for (const matching of result.matchings) {
+    if (isMatched(matching.feasibility)) continue;
+    for (const task of matching.loanTasks) {
+      reasons.set(task.taskId, matching.feasibility);
+    }
+  }
+  return reasons;
+}
+
 // Helper function to remove duplicate combinations
 function removeDuplicates(combinations: LoanTask[][][]): LoanTask[][][] {
   const uniqueCombinations = new Set<string>();
@@ -0,0 +1,16 @@
+import { LoanTask } from "./utils";
+
+// Split a batch into maturity buckets keyed by timestamp. Every order stays at
+// its own maturityTimestamp: DebtOrderServiceManager.validateMatches rejects a
+// match at any other, and NewLoanOrderCreated carries no maturity options.
+export function groupByMaturity(tasks: LoanTask[]): Map<string, LoanTask[]> {
+  const buckets = new Map<string, LoanTask[]>();
+  for (const task of tasks) {
+    const key = task.maturityTimestamp.toString();
+    if (!buckets.has(key)) {
+      buckets.set(key, []);
+    }
+    buckets.get(key)!.push(task);
+  }
+  return buckets;
+}
@@ -0,0 +1,33 @@
+import * as fs from "fs";
+import { operatorConfig } from "./config";
+import { describeOrder } from "./lifecycle";
+import { closeStore, loadOrderRecord, openStore } from "./store";
+
+// Look up orders in the operator's state database and print their status and
+// history, e.g. `npm run order-status -- 12 15`
+function main() {
+  const taskIds = process.argv.slice(2).map(Number);
+  if (taskIds.length === 0 || taskIds.some(taskId => !Number.isInteger(taskId) || taskId < 0)) {
+    throw new Error("Usage: order-status <taskId> [<taskId> ...]");
+  }
+  if (!fs.existsSync(operatorConfig.stateDatabase)) {
+    throw new Error(`State database ${operatorConfig.stateDatabase} does not exist`);
+  }
+
+  openStore(operatorConfig.stateDatabase);
+  try {
+    for (const taskId of taskIds) {
+      const record = loadOrderRecord(taskId);
+      console.log(record ? describeOrder(record).join("\n") : `Order ${taskId}: not seen by this operator`);
+    }
+  } finally {
+    closeStore();
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exitCode = 1;
+}
@@ -0,0 +1,120 @@
+// Counters for one pipeline stage, to see where work backs up
+export type StageMetrics = {
+  queued: number;         // inputs waiting for a free slot
+  active: number;         // inputs being handled
+  completed: number;
+  failed: number;
+  maxQueued: number;      // deepest the queue has been
+  blocked: number;        // inputs that had to wait for room in a full queue
+  waitMs: number;         // total time inputs spent queued
+  runMs: number;          // total time spent handling inputs
+};
+
+// A step of the operator's pipeline. At most `concurrency` inputs are handled
+// at once; up to `capacity` more wait their turn in order, and callers beyond
+// that wait for room before their input is even queued.
+export type Stage<T, R> = {
+  name: string;
+  concurrency: number;
+  capacity: number;
+  metrics: StageMetrics;
+  run: (input: T) => Promise<R>;
+  isFull: () => boolean;
+  idle: () => Promise<void>;      // resolves once nothing is queued or active
+};
+
+export function createStage<T, R>(
+  name: string,
+  handler: (input: T) => Promise<R>,
+  limits: { concurrency: number; capacity: number }
+): Stage<T, R> {
+  const metrics: StageMetrics = {
+    queued: 0,
+    active: 0,
+    completed: 0,
+    failed: 0,
+    maxQueued: 0,
+    blocked: 0,
+    waitMs: 0,
+    runMs: 0,
+  };
+  const slotWaiters: (() => void)[] = [];
+  const roomWaiters: (() => void)[] = [];
+  const idleWaiters: (() => void)[] = [];
+
+  const isFull = () => metrics.queued >= limits.capacity;
+  const isIdle = () => metrics.queued === 0 && metrics.active === 0 && roomWaiters.length === 0;
+
+  // A free slot is only taken directly if no input is waiting for one
+  const tryAcquire = () => {
+    if (metrics.active < limits.concurrency && slotWaiters.length === 0) {
+      metrics.active++;
+      return true;
+    }
+    return false;
+  };
+
+  // A freed slot goes straight to the longest waiting input, so later callers
+  // cannot jump the queue
+  const release = () => {
+    const next = slotWaiters.shift();
+    if (next) {
+      next();
+      return;
+    }
+    metrics.active--;
+    if (isIdle()) {
+      idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  };
+
+  const run = async (input: T): Promise<R> => {
+    const queuedAt = Date.now();
+    if (!tryAcquire()) {
+      if (isFull()) {
+        metrics.blocked++;
+        do {
+          await new Promise<void>(resolve => roomWaiters.push(resolve));
+        } while (isFull());
+      }
+      if (!tryAcquire()) {
+        metrics.queued++;
+        metrics.maxQueued = Math.max(metrics.maxQueued, metrics.queued);
+        await new Promise<void>(resolve => slotWaiters.push(resolve));
+        metrics.queued--;
+        roomWaiters.shift()?.();
+      }
+    }
+
+    const startedAt = Date.now();
+    metrics.waitMs += startedAt - queuedAt;
+    try {
+      const result = await handler(input);
+      metrics.completed++;
+      return result;
+    } catch (error) {
+      metrics.failed++;
+      throw error;
+    } finally {
+      metrics.runMs += Date.now() - startedAt;
+      release();
+    }
+  };
+
+  const idle = async () => {
+    if (isIdle()) return;
+    await new Promise<void>(resolve => idleWaiters.push(resolve));
+  };
+
+  return { name, concurrency: limits.concurrency, capacity: limits.capacity, metrics, run, isFull, idle };
+}
+
+// One line per stage, for the logs
+export function describeStage(stage: Pick<Stage<unknown, unknown>, "name" | "concurrency" | "capacity" | "metrics">): string {
+  const { queued, active, completed, failed, maxQueued, blocked, waitMs, runMs } = stage.metrics;
+  const handled = completed + failed;
+  const average = (total: number) => (handled > 0 ? Math.round(total / handled) : 0);
+  return `${stage.name}: ${active}/${stage.concurrency} active, ${queued}/${stage.capacity} queued ` +
+    `(max ${maxQueued}, ${blocked} blocked), ${completed} done, ${failed} failed, ` +
+    `avg wait ${average(waitMs)}ms, avg run ${average(runMs)}ms`;
+}
@@ -0,0 +1,158 @@
+import bigDecimal from "js-big-decimal";
+import { borrowerCeiling, lenderFloor } from "./constraints";
+import {
+  LoanMatchingResult,
+  LoanTask,
+  LoanTransfer,
+  SurplusPolicy,
+  SurplusPolicyKind,
+} from "./utils";
+
+const RoundingModes = bigDecimal.RoundingModes;
+const BIPS = BigInt(10000);
+
+export type OrderFill = {
+  amount: bigint;         // principal filled across all transfers
+  rate: bigDecimal;       // volume-weighted rate in basis points
+};
+
+// Matches the original midpoint rule: the spread is split evenly
+export const DEFAULT_SURPLUS_POLICY: SurplusPolicy = {
+  kind: SurplusPolicyKind.RATIO,
+  lenderShareBips: BigInt(5000),
+};
+
+// Place a rate between a lender ask and a borrower bid according to the policy.
+// The amounts are the principal on each side, used by the proportional policy.
+export function shareSurplus(
+  lenderRate: bigint,
+  borrowerRate: bigint,
+  policy: SurplusPolicy,
+  lenderAmount: bigint,
+  borrowerAmount: bigint
+): bigint {
+  const spread = borrowerRate - lenderRate;
+  return lenderRate + (spread * lenderShareBips(policy, lenderAmount, borrowerAmount)) / BIPS;
+}
+
+// Rate for a single lender/borrower pair, which the caller has checked cross
+export function pairRate(lender: LoanTask, borrower: LoanTask, policy: SurplusPolicy): bigint {
+  return shareSurplus(
+    lenderFloor(lender),
+    borrowerCeiling(borrower),
+    policy,
+    lender.principalAmount,
+    borrower.principalAmount
+  );
+}
+
+export function describeSurplusPolicy(policy: SurplusPolicy): string {
+  switch (policy.kind) {
+    case SurplusPolicyKind.BORROWERS:
+      return "all surplus to borrowers";
+    case SurplusPolicyKind.LENDERS:
+      return "all surplus to lenders";
+    case SurplusPolicyKind.RATIO:
+      return `${Number(policy.lenderShareBips) / 100}% of surplus to lenders`;
+    case SurplusPolicyKind.PROPORTIONAL:
+      return "surplus split in proportion to order size";
+  }
+}
+
+function lenderShareBips(policy: SurplusPolicy, lenderAmount: bigint, borrowerAmount: bigint): bigint {
+  switch (policy.kind) {
+    case SurplusPolicyKind.BORROWERS:
+      return BigInt(0);
+    case SurplusPolicyKind.LENDERS:
+      return BIPS;
+    case SurplusPolicyKind.RATIO:
+      return policy.lenderShareBips;
+    case SurplusPolicyKind.PROPORTIONAL: {
+      const total = lenderAmount + borrowerAmount;
+      return total > BigInt(0) ? (lenderAmount * BIPS) / total : BIPS / BigInt(2);
+    }
+  }
+}
+
+// Total fill and blended rate of every order that appears in a transfer, keyed by taskId
+export function summarizeOrderFills(transfers: LoanTransfer[]): Map<number, OrderFill> {
+  const totals = new Map<number, { amount: bigint; weighted: bigint }>();
+
+  const add = (taskId: number, transfer: LoanTransfer) => {
+    const total = totals.get(taskId) ?? { amount: BigInt(0), weighted: BigInt(0) };
+    total.amount += transfer.amount;
+    total.weighted += transfer.amount * transfer.rate;
+    totals.set(taskId, total);
+  };
+
+  for (const transfer of transfers) {
+    add(transfer.lenderTaskId, transfer);
+    add(transfer.borrowerTaskId, transfer);
+  }
+
+  const fills = new Map<number, OrderFill>();
+  for (const [taskId, total] of totals) {
+    fills.set(taskId, {
+      amount: total.amount,
+      rate: blend(total.weighted, total.amount),
+    });
+  }
+  return fills;
+}
+
+// Record the blended rate of each order on the result, and where it landed in
+// the order's rate range, then recompute the average rates from the transfers
+// actually made
+export function applyBlendedRates(
+  result: LoanMatchingResult,
+  transfers: LoanTransfer[]
+): LoanMatchingResult {
+  const fills = summarizeOrderFills(transfers);
+  const lenderRates: Record<string, bigDecimal> = {};
+  const borrowerRates: Record<string, bigDecimal> = {};
+
+  let totalAmount = BigInt(0);
+  let weightedRate = BigInt(0);
+
+  for (const transfer of transfers) {
+    totalAmount += transfer.amount;
+    weightedRate += transfer.amount * transfer.rate;
+    lenderRates[transfer.lenderTaskId.toString()] = fills.get(transfer.lenderTaskId)!.rate;
+    borrowerRates[transfer.borrowerTaskId.toString()] = fills.get(transfer.borrowerTaskId)!.rate;
+  }
+
+  const rangePositions: Record<string, bigDecimal> = {};
+  for (const matching of result.matchings) {
+    for (const task of matching.loanTasks) {
+      const fill = fills.get(task.taskId);
+      if (fill) {
+        rangePositions[task.taskId.toString()] = rangePosition(task, fill.rate);
+      }
+    }
+  }
+
+  result.lenderRates = lenderRates;
+  result.borrowerRates = borrowerRates;
+  result.rangePositions = rangePositions;
+  if (totalAmount > BigInt(0)) {
+    result.averageLenderRate = blend(weightedRate, totalAmount);
+    result.averageBorrowerRate = result.averageLenderRate; // Each transfer has one rate for both sides
+  }
+  return result;
+}
+
+// 0 at the order's minRate and 1 at its maxRate
+export function rangePosition(task: LoanTask, rate: bigDecimal): bigDecimal {
+  const minRate = new bigDecimal(task.orderData.minRate.toString());
+  const width = task.orderData.maxRate - task.orderData.minRate;
+  if (width <= BigInt(0)) return new bigDecimal(0);
+  return rate
+    .subtract(minRate)
+    .divide(new bigDecimal(width.toString()), 4, RoundingModes.FLOOR);
+}
+
+function blend(weighted: bigint, amount: bigint): bigDecimal {
+  if (amount === BigInt(0)) return new bigDecimal(0);
+  return new bigDecimal(weighted.toString())
+    .divide(new bigDecimal(amount.toString()), 4, RoundingModes.FLOOR);
+}
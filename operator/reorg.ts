@@ -0,0 +1,65 @@
+import { publicClient } from "./utils";
+
+// Hashes of the most recent blocks seen, by block number
+export type BlockWindow = Map<bigint, `0x${string}`>;
+
+// Where an order's NewLoanOrderCreated log was found
+export type LogSource = {
+  blockNumber: bigint;
+  blockHash: `0x${string}`;
+};
+
+// Remember a block and forget those that have fallen out of the window
+export function recordBlock(
+  window: BlockWindow,
+  block: { number: bigint; hash: `0x${string}` },
+  windowBlocks: bigint
+) {
+  window.set(block.number, block.hash);
+  for (const blockNumber of window.keys()) {
+    if (blockNumber <= block.number - windowBlocks) {
+      window.delete(blockNumber);
+    }
+  }
+}
+
+// Check a new block against the window. Returns null if it extends the chain
+// seen so far, otherwise the last block both chains share, from which
+// everything after has to be rolled back. A block that does not directly follow
+// the newest one seen, because blocks were missed or it replaces one already
+// seen, is checked by walking back to the newest seen block that is still
+// canonical. If none is, the reorg is deeper than the window and the block
+// before its start is returned, with `deep` set.
+export async function findForkPoint(
+  window: BlockWindow,
+  block: { number: bigint; hash: `0x${string}`; parentHash: `0x${string}` }
+): Promise<{ forkBlock: bigint; deep: boolean } | null> {
+  if (window.size === 0 || window.get(block.number) === block.hash) return null;
+
+  const latest = [...window.keys()].reduce((a, b) => (a > b ? a : b));
+  if (latest === block.number - BigInt(1) && window.get(latest) === block.parentHash) return null;
+
+  const seen = [...window.keys()].filter(blockNumber => blockNumber < block.number).sort((a, b) => (a > b ? -1 : 1));
+  for (const blockNumber of seen) {
+    const canonical = await publicClient.getBlock({ blockNumber });
+    if (canonical.hash === window.get(blockNumber)) {
+      return blockNumber === latest ? null : { forkBlock: blockNumber, deep: false };
+    }
+  }
+  const oldest = seen.length > 0 ? seen[seen.length - 1] : block.number;
+  return { forkBlock: oldest - BigInt(1), deep: true };
+}
+
+// The block numbers among `sources` whose hash is no longer canonical, e.g.
+// after a reorg while the operator was stopped
+export async function orphanedBlocks(sources: LogSource[]): Promise<bigint[]> {
+  const hashes = new Map(sources.map(source => [source.blockNumber, source.blockHash]));
+  const orphaned: bigint[] = [];
+  for (const [blockNumber, blockHash] of hashes) {
+    const canonical = await publicClient.getBlock({ blockNumber });
+    if (canonical.hash !== blockHash) {
+      orphaned.push(blockNumber);
+    }
+  }
+  return orphaned;
+}
@@ -0,0 +1,78 @@
+import { canStillFill } from "./constraints";
+import { Mathb } from "./math";
+import { summarizeOrderFills } from "./pricing";
+import { LoanTask, LoanTransfer, serviceManager } from "./utils";
+
+// An order that is still open after a batch, with the principal it has left
+export type ResidualOrder = {
+  task: LoanTask;         // as created on-chain, which is what gets submitted
+  remaining: bigint;
+};
+
+// Open orders carried from one batch into the next, by taskId
+export type ResidualBook = Map<number, ResidualOrder>;
+
+// A new order enters the book with its full principal
+export function newResidualOrder(task: LoanTask): ResidualOrder {
+  return { task, remaining: task.principalAmount };
+}
+
+// The order as matchers see it: sized down to the principal it has left
+export function residualTask(order: ResidualOrder): LoanTask {
+  if (order.remaining === order.task.principalAmount) return order.task;
+  return {
+    ...order.task,
+    principalAmount: order.remaining,
+    orderData: {
+      ...order.task.orderData,
+      maxPrincipal: Mathb.min(order.task.orderData.maxPrincipal, order.remaining),
+    },
+  };
+}
+
+// Remove orders that an operator has already responded to on-chain or that
+// have expired by `now`, and return their taskIds
+export async function pruneResidualBook(
+  book: ResidualBook,
+  now: bigint
+): Promise<{ responded: number[]; expired: number[] }> {
+  const orders = [...book.values()];
+  const responses = await Promise.all(
+    orders.map(order => serviceManager.read.allTaskResponses([order.task.taskId]))
+  );
+
+  const pruned = { responded: [] as number[], expired: [] as number[] };
+  orders.forEach((order, index) => {
+    if (responses[index] !== "0x") {
+      pruned.responded.push(order.task.taskId);
+    } else if (order.task.orderData.expiry <= now) {
+      pruned.expired.push(order.task.taskId);
+    } else {
+      return;
+    }
+    book.delete(order.task.taskId);
+  });
+  return pruned;
+}
+
+// Roll a batch's orders into the book with what the batch's transfers left of
+// them. Orders that can no longer fill are dropped.
+//
+// respondToLoanBatch marks every task it includes as responded, so today an
+// order that was submitted at all is pruned before the next batch and only
+// orders left out of the submission really carry over.
+export function carryForward(
+  book: ResidualBook,
+  orders: ResidualOrder[],
+  transfers: LoanTransfer[]
+) {
+  const fills = summarizeOrderFills(transfers);
+  for (const order of orders) {
+    const remaining = order.remaining - (fills.get(order.task.taskId)?.amount ?? BigInt(0));
+    if (canStillFill(order.task, remaining)) {
+      book.set(order.task.taskId, { task: order.task, remaining });
+    } else {
+      book.delete(order.task.taskId);
+    }
+  }
+}
@@ -0,0 +1,300 @@
+import Database from "better-sqlite3";
+import { OrderLifecycle, OrderRecord, OrderStatus } from "./lifecycle";
+import { LogSource } from "./reorg";
+import { ResidualBook } from "./residual";
+import { LoanTask } from "./utils";
+
+// Schema changes, applied in order. The database's user_version is the number
+// applied so far, so a migration must never change once released: add a new
+// one instead.
+const migrations: string[] = [
+  `
+  CREATE TABLE orders (
+    task_id INTEGER PRIMARY KEY,
+    task TEXT NOT NULL,               -- the LoanTask as created on-chain, as JSON
+    status TEXT NOT NULL,
+    principal_amount TEXT NOT NULL,
+    filled_amount TEXT NOT NULL,
+    batch_number TEXT,                -- batch it was collected into, until that batch is processed
+    remaining TEXT                    -- principal left while it is in the residual book
+  );
+  CREATE INDEX orders_batch_number ON orders (batch_number);
+
+  CREATE TABLE order_transitions (
+    task_id INTEGER NOT NULL REFERENCES orders (task_id),
+    seq INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    reason TEXT NOT NULL,
+    PRIMARY KEY (task_id, seq)
+  );
+
+  CREATE TABLE batches (
+    batch_number TEXT PRIMARY KEY,
+    processed_at INTEGER              -- null while the batch is still collecting orders
+  );
+
+  CREATE TABLE responses (
+    nonce INTEGER PRIMARY KEY,        -- a replacement at the same nonce overwrites the row
+    batch_id TEXT NOT NULL,
+    fills TEXT NOT NULL,              -- amount filled by taskId, as JSON
+    status TEXT NOT NULL,             -- pending, success, reverted or cancelled
+    tx_hash TEXT,
+    submitted_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE checkpoints (
+    name TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  `,
+  `
+  -- Block the order's NewLoanOrderCreated log was found in, to notice it being reorged out
+  ALTER TABLE orders ADD COLUMN block_number TEXT;
+  ALTER TABLE orders ADD COLUMN block_hash TEXT;
+  `,
+];
+
+// Everything the operator needs to pick up where it left off
+export type StoredState = {
+  orderLifecycle: OrderLifecycle;
+  residualBook: ResidualBook;
+  batches: Record<string, LoanTask[]>;    // orders of batches that were never processed
+  submittedFills: Map<number, Map<number, bigint>>;
+  orderSources: Map<number, LogSource>;   // for orders stored since block hashes were kept
+  lastProcessedBlock: bigint | null;
+};
+
+let db: Database.Database | null = null;
+
+// Open the state database, creating it if needed, and bring its schema up to date
+export function openStore(file: string) {
+  db = new Database(file);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+
+  const version = db.pragma("user_version", { simple: true }) as number;
+  if (version > migrations.length) {
+    throw new Error(`State database ${file} is at schema version ${version}, newer than this operator (${migrations.length})`);
+  }
+  for (let index = version; index < migrations.length; index++) {
+    db.transaction(() => {
+      db!.exec(migrations[index]);
+      db!.pragma(`user_version = ${index + 1}`);
+    })();
+    console.log(`Migrated state database ${file} to schema version ${index + 1}`);
+  }
+}
+
+export function closeStore() {
+  db?.close();
+  db = null;
+}
+
+export function loadState(): StoredState {
+  const state: StoredState = {
+    orderLifecycle: new Map(),
+    residualBook: new Map(),
+    batches: {},
+    submittedFills: new Map(),
+    orderSources: new Map(),
+    lastProcessedBlock: null,
+  };
+
+  const transitions = store()
+    .prepare("SELECT task_id, status, timestamp, reason FROM order_transitions ORDER BY task_id, seq")
+    .all() as { task_id: number; status: OrderStatus; timestamp: number; reason: string }[];
+  const orders = store()
+    .prepare("SELECT * FROM orders ORDER BY task_id")
+    .all() as OrderRow[];
+
+  for (const row of orders) {
+    const task = fromJson(row.task) as LoanTask;
+    state.orderLifecycle.set(row.task_id, {
+      taskId: row.task_id,
+      principalAmount: BigInt(row.principal_amount),
+      filledAmount: BigInt(row.filled_amount),
+      status: row.status,
+      history: transitions
+        .filter(transition => transition.task_id === row.task_id)
+        .map(({ status, timestamp, reason }) => ({ status, timestamp, reason })),
+    });
+    if (row.remaining !== null) {
+      state.residualBook.set(row.task_id, { task, remaining: BigInt(row.remaining) });
+    }
+    if (row.batch_number !== null) {
+      (state.batches[row.batch_number] ??= []).push(task);
+    }
+    if (row.block_number !== null && row.block_hash !== null) {
+      state.orderSources.set(row.task_id, {
+        blockNumber: BigInt(row.block_number),
+        blockHash: row.block_hash as `0x${string}`,
+      });
+    }
+  }
+
+  const responses = store()
+    .prepare("SELECT nonce, fills FROM responses WHERE status = 'pending'")
+    .all() as { nonce: number; fills: string }[];
+  for (const response of responses) {
+    state.submittedFills.set(response.nonce, new Map(fromJson(response.fills) as [number, bigint][]));
+  }
+
+  const checkpoint = store()
+    .prepare("SELECT value FROM checkpoints WHERE name = 'lastProcessedBlock'")
+    .get() as { value: string } | undefined;
+  state.lastProcessedBlock = checkpoint ? BigInt(checkpoint.value) : null;
+
+  return state;
+}
+
+// One order as last stored, with its full history, or null if it was never seen
+export function loadOrderRecord(taskId: number): OrderRecord | null {
+  const row = store()
+    .prepare("SELECT task_id, status, principal_amount, filled_amount FROM orders WHERE task_id = ?")
+    .get(taskId) as Pick<OrderRow, "task_id" | "status" | "principal_amount" | "filled_amount"> | undefined;
+  if (!row) return null;
+
+  const transitions = store()
+    .prepare("SELECT status, timestamp, reason FROM order_transitions WHERE task_id = ? ORDER BY seq")
+    .all(taskId) as { status: OrderStatus; timestamp: number; reason: string }[];
+  return {
+    taskId: row.task_id,
+    principalAmount: BigInt(row.principal_amount),
+    filledAmount: BigInt(row.filled_amount),
+    status: row.status,
+    history: transitions,
+  };
+}
+
+// Add a newly seen order, collected into `batchNumber` unless it was turned away
+export function saveOrder(task: LoanTask, record: OrderRecord, batchNumber: bigint | null, source: LogSource) {
+  store().transaction(() => {
+    store().prepare(`
+      INSERT OR IGNORE INTO orders
+        (task_id, task, status, principal_amount, filled_amount, batch_number, block_number, block_hash)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      task.taskId,
+      toJson(task),
+      record.status,
+      record.principalAmount.toString(),
+      record.filledAmount.toString(),
+      batchNumber?.toString() ?? null,
+      source.blockNumber.toString(),
+      source.blockHash
+    );
+    if (batchNumber !== null) {
+      store().prepare("INSERT OR IGNORE INTO batches (batch_number) VALUES (?)").run(batchNumber.toString());
+    }
+    saveOrderRecord(record);
+  })();
+}
+
+// Forget orders whose log was reorged out, along with their history
+export function deleteOrders(taskIds: number[]) {
+  store().transaction(() => {
+    for (const taskId of taskIds) {
+      store().prepare("DELETE FROM order_transitions WHERE task_id = ?").run(taskId);
+      store().prepare("DELETE FROM orders WHERE task_id = ?").run(taskId);
+    }
+  })();
+}
+
+// Write an order's status, fill and any transitions not stored yet
+export function saveOrderRecord(record: OrderRecord) {
+  store().transaction(() => {
+    store().prepare("UPDATE orders SET status = ?, filled_amount = ? WHERE task_id = ?").run(
+      record.status,
+      record.filledAmount.toString(),
+      record.taskId
+    );
+    const insert = store().prepare(`
+      INSERT OR IGNORE INTO order_transitions (task_id, seq, status, timestamp, reason)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    record.history.forEach((transition, seq) =>
+      insert.run(record.taskId, seq, transition.status, transition.timestamp, transition.reason)
+    );
+  })();
+}
+
+// Checkpoint a processed batch: its orders leave the batch, and the residual
+// book is stored as it now stands, in one transaction so a crash keeps either
+// the batch or its outcome
+export function saveBatchProcessed(batchNumber: bigint, residualBook: ResidualBook) {
+  store().transaction(() => {
+    store().prepare("UPDATE orders SET batch_number = NULL WHERE batch_number = ?").run(batchNumber.toString());
+    store().prepare("UPDATE batches SET processed_at = ? WHERE batch_number = ?").run(Date.now(), batchNumber.toString());
+    saveResidualBook(residualBook);
+  })();
+}
+
+export function saveResidualBook(residualBook: ResidualBook) {
+  store().transaction(() => {
+    store().prepare("UPDATE orders SET remaining = NULL WHERE remaining IS NOT NULL").run();
+    const update = store().prepare("UPDATE orders SET remaining = ? WHERE task_id = ?");
+    for (const order of residualBook.values()) {
+      update.run(order.remaining.toString(), order.task.taskId);
+    }
+  })();
+}
+
+// Record a batch response sent at `nonce`, with what it fills for each order
+export function saveSubmission(nonce: number, batchId: bigint, fills: Map<number, bigint>) {
+  store().prepare(`
+    INSERT OR REPLACE INTO responses (nonce, batch_id, fills, status, submitted_at)
+    VALUES (?, ?, ?, 'pending', ?)
+  `).run(nonce, batchId.toString(), toJson([...fills]), Date.now());
+}
+
+// Record how the response at `nonce` ended. A cancelled one has no hash.
+export function settleSubmission(
+  nonce: number,
+  status: "success" | "reverted" | "cancelled",
+  txHash: `0x${string}` | null
+) {
+  store().prepare("UPDATE responses SET status = ?, tx_hash = ? WHERE nonce = ? AND status = 'pending'").run(
+    status,
+    txHash,
+    nonce
+  );
+}
+
+export function saveLastProcessedBlock(blockNumber: bigint) {
+  store().prepare("INSERT OR REPLACE INTO checkpoints (name, value) VALUES ('lastProcessedBlock', ?)").run(
+    blockNumber.toString()
+  );
+}
+
+type OrderRow = {
+  task_id: number;
+  task: string;
+  status: OrderStatus;
+  principal_amount: string;
+  filled_amount: string;
+  batch_number: string | null;
+  remaining: string | null;
+  block_number: string | null;
+  block_hash: string | null;
+};
+
+function store(): Database.Database {
+  if (!db) {
+    throw new Error("State database is not open");
+  }
+  return db;
+}
+
+// JSON with bigints kept exact, as {"bigint": "<digits>"}
+function toJson(value: unknown): string {
+  return JSON.stringify(value, (_, field) => (typeof field === "bigint" ? { bigint: field.toString() } : field));
+}
+
+function fromJson(json: string): unknown {
+  return JSON.parse(json, (_, field) =>
+    field !== null && typeof field === "object" && Object.keys(field).length === 1 && typeof field.bigint === "string"
+      ? BigInt(field.bigint)
+      : field
+  );
+}
@@ -0,0 +1,109 @@
+import { clearLoanAuction } from "./auction";
+import { limitToCollateral } from "./collateral";
+import {
+  crossLoanOrders,
+  crossLoanOrdersForVolume,
+  crossLoanOrdersProRata,
+} from "./crossing";
+import {
+  computeBestLoanResult,
+  computeLoanMatchingResult,
+  generateLoanTaskCombinations,
+  isLoanCombinationPossible,
+  singleTaskMatchings,
+  summarizeLoanMatchings,
+} from "./matching";
+import { LoanMatchingResult, LoanTask, MatchingOptions } from "./utils";
+
+// A matching policy applied to the orders of one maturity group
+export interface MatchingStrategy {
+  name: string;
+  match(tasks: LoanTask[], options: MatchingOptions): LoanMatchingResult;
+}
+
+// Original set-partition search. Exponential in the group size, so only
+// suitable for small batches or as a reference to compare other policies against.
+export const exhaustiveStrategy: MatchingStrategy = {
+  name: "exhaustive",
+  match(tasks, options) {
+    const results = generateLoanTaskCombinations(tasks)
+      .filter(isLoanCombinationPossible)
+      .map(combination => computeLoanMatchingResult(combination, options.surplusPolicy))
+      .filter(result => result.feasible);
+
+    if (results.length === 0) {
+      return summarizeLoanMatchings(tasks, singleTaskMatchings(tasks));
+    }
+
+    return computeBestLoanResult(results);
+  },
+};
+
+// Cheapest lenders fill the highest-paying borrowers first
+export const priceTimeStrategy: MatchingStrategy = {
+  name: "price-time",
+  match: (tasks, options) => crossLoanOrders(tasks, options.surplusPolicy),
+};
+
+// Crossing orders share the cleared volume in proportion to their size
+export const proRataStrategy: MatchingStrategy = {
+  name: "pro-rata",
+  match: (tasks, options) => crossLoanOrdersProRata(tasks, options.surplusPolicy),
+};
+
+// Fill as much principal as the rate limits allow
+export const maxVolumeStrategy: MatchingStrategy = {
+  name: "max-volume",
+  match: (tasks, options) => crossLoanOrdersForVolume(tasks, options.surplusPolicy),
+};
+
+// Single uniform clearing rate from the aggregated supply and demand curves
+export const callAuctionStrategy: MatchingStrategy = {
+  name: "call-auction",
+  match: (tasks, options) => clearLoanAuction(tasks, options.surplusPolicy),
+};
+
+const strategies: Record<string, MatchingStrategy> = {
+  [exhaustiveStrategy.name]: exhaustiveStrategy,
+  [priceTimeStrategy.name]: priceTimeStrategy,
+  [proRataStrategy.name]: proRataStrategy,
+  [maxVolumeStrategy.name]: maxVolumeStrategy,
+  [callAuctionStrategy.name]: callAuctionStrategy,
+};
+
+export function getMatchingStrategy(name: string): MatchingStrategy {
+  const strategy = strategies[name];
+  if (!strategy) {
+    throw new Error(
+      `Unknown matching strategy "${name}", expected one of: ${Object.keys(strategies).join(", ")}`
+    );
+  }
+  return withCollateralChecks(strategy);
+}
+
+// Borrowers are matched only for the principal their collateral covers at the
+// given price. Those it covers too little of are reported with the reason.
+export function withCollateralChecks(strategy: MatchingStrategy): MatchingStrategy {
+  return {
+    name: strategy.name,
+    match(tasks, options) {
+      if (options.collateralPrice === undefined) {
+        return strategy.match(tasks, options);
+      }
+
+      const { eligible, rejected } = limitToCollateral(tasks, options.collateralPrice);
+      const result = strategy.match(eligible, options);
+      if (rejected.size === 0) return result;
+
+      const undercollateralized = tasks.filter(task => rejected.has(task.taskId));
+      return {
+        ...summarizeLoanMatchings(tasks, [
+          ...result.matchings,
+          ...singleTaskMatchings(undercollateralized, rejected),
+        ]),
+        clearingRate: result.clearingRate,
+        marginalOrders: result.marginalOrders,
+      };
+    },
+  };
+}
@@ -0,0 +1,166 @@
+import { BaseError, ContractFunctionRevertedError, decodeFunctionData, encodeAbiParameters, keccak256 } from "viem";
+import { ServiceManagerABI } from "./abis/ServiceManager";
+import { toLoanOrderTask } from "./codec";
+import { LoanTask, LoanTransfer, account, serviceManager } from "./utils";
+
+// IDebtHook.LoanMatch as respondToLoanBatch takes it
+export type LoanMatch = {
+  lender: `0x${string}`;
+  borrower: `0x${string}`;
+  principalAmount: bigint;
+  interestRateBips: bigint;
+  maturityTimestamp: bigint;
+};
+
+// A match left out of a submission, with the reason it was
+export type DroppedMatch = {
+  transfer: LoanTransfer;
+  reason: string;
+};
+
+const loanMatchesParameter = {
+  type: "tuple[]",
+  components: [
+    { name: "lender", type: "address" },
+    { name: "borrower", type: "address" },
+    { name: "principalAmount", type: "uint256" },
+    { name: "interestRateBips", type: "uint256" },
+    { name: "maturityTimestamp", type: "uint256" },
+  ],
+} as const;
+
+// respondToLoanBatch's revert when the matches were signed for another batch id
+const INVALID_SIGNATURE = "Invalid signature";
+
+export function toLoanMatch(transfer: LoanTransfer): LoanMatch {
+  return {
+    lender: transfer.lender,
+    borrower: transfer.borrower,
+    principalAmount: transfer.amount,
+    interestRateBips: transfer.rate,
+    maturityTimestamp: transfer.maturityTimestamp,
+  };
+}
+
+// keccak256(abi.encode(batchId, matches)), as getLoanBatchHash computes it.
+// Worked out locally so bisecting a batch does not cost a call per attempt.
+export function loanBatchHash(batchId: bigint, matches: LoanMatch[]): `0x${string}` {
+  return keccak256(encodeAbiParameters([{ type: "uint256" }, loanMatchesParameter], [batchId, matches]));
+}
+
+// The id respondToLoanBatch checks signatures against. It moves on every time
+// any operator's batch executes, so it is read right before signing.
+export async function readCurrentBatchId(): Promise<bigint> {
+  return serviceManager.read.currentBatchId();
+}
+
+export async function signLoanBatch(batchId: bigint, matches: LoanMatch[]): Promise<`0x${string}`> {
+  return account.sign({ hash: loanBatchHash(batchId, matches) });
+}
+
+// Whether calldata is a respondToLoanBatch signed for a batch id that is no
+// longer current, so it can only revert. Signing is deterministic, so the
+// matches are signed again for the current id and the signatures compared.
+export async function isLoanBatchStale(data: `0x${string}`): Promise<boolean> {
+  if (data === "0x") return false;
+  const call = decodeFunctionData({ abi: ServiceManagerABI, data });
+  if (call.functionName !== "respondToLoanBatch") return false;
+  const [, , matches, signature] = call.args;
+  return await signLoanBatch(await readCurrentBatchId(), [...matches]) !== signature;
+}
+
+// The tasks respondToLoanBatch needs for a set of transfers: every task with a
+// transfer in it, in their original order
+export function tasksForTransfers(tasks: LoanTask[], transfers: LoanTransfer[]): LoanTask[] {
+  const taskIds = new Set(transfers.flatMap(transfer => [transfer.lenderTaskId, transfer.borrowerTaskId]));
+  return tasks.filter(task => taskIds.has(task.taskId));
+}
+
+// Run respondToLoanBatch through eth_call. Returns the revert reason, or null
+// if the call would succeed.
+export async function simulateLoanBatch(
+  batchId: bigint,
+  tasks: LoanTask[],
+  transfers: LoanTransfer[]
+): Promise<string | null> {
+  const batchTasks = tasksForTransfers(tasks, transfers);
+  const matches = transfers.map(toLoanMatch);
+  try {
+    await serviceManager.simulate.respondToLoanBatch([
+      batchTasks.map(toLoanOrderTask),
+      batchTasks.map(task => task.taskId),
+      matches,
+      await signLoanBatch(batchId, matches),
+    ]);
+    return null;
+  } catch (error) {
+    return revertReason(error);
+  }
+}
+
+// Narrow a batch down to the matches that go through. The whole batch is
+// simulated first; if it reverts, it is split in half and each half bisected
+// on its own until the offending matches are isolated and dropped. Halves that
+// pass alone but not together are merged one match at a time.
+//
+// Returns null if batchId stops being current part way through, as every
+// attempt then fails the signature check whatever its matches.
+export async function findViableBatch(
+  batchId: bigint,
+  tasks: LoanTask[],
+  transfers: LoanTransfer[]
+): Promise<{ tasks: LoanTask[]; transfers: LoanTransfer[]; dropped: DroppedMatch[] } | null> {
+  const dropped: DroppedMatch[] = [];
+  let stale = false;
+
+  const bisect = async (subset: LoanTransfer[]): Promise<LoanTransfer[]> => {
+    if (subset.length === 0 || stale) return [];
+    const reason = await simulateLoanBatch(batchId, tasks, subset);
+    if (reason === null) return subset;
+    if (reason === INVALID_SIGNATURE) {
+      stale = true;
+      return [];
+    }
+    if (subset.length === 1) {
+      dropped.push({ transfer: subset[0], reason });
+      return [];
+    }
+
+    const middle = Math.ceil(subset.length / 2);
+    const left = await bisect(subset.slice(0, middle));
+    const right = await bisect(subset.slice(middle));
+    if (left.length === 0 || right.length === 0) return [...left, ...right];
+    if (await simulateLoanBatch(batchId, tasks, [...left, ...right]) === null) return [...left, ...right];
+
+    const kept = [...left];
+    for (const transfer of right) {
+      const conflict = await simulateLoanBatch(batchId, tasks, [...kept, transfer]);
+      if (conflict === INVALID_SIGNATURE) {
+        stale = true;
+        return [];
+      }
+      if (conflict === null) {
+        kept.push(transfer);
+      } else {
+        dropped.push({ transfer, reason: conflict });
+      }
+    }
+    return kept;
+  };
+
+  const viable = await bisect(transfers);
+  if (stale) return null;
+  return { tasks: tasksForTransfers(tasks, viable), transfers: viable, dropped };
+}
+
+// The contract's revert string where there is one, otherwise the error message
+function revertReason(error: unknown): string {
+  if (error instanceof BaseError) {
+    const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError);
+    if (reverted instanceof ContractFunctionRevertedError) {
+      return reverted.reason ?? reverted.shortMessage;
+    }
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,70 @@
+import { erc20Abi, formatUnits } from "viem";
+import { operatorConfig } from "./config";
+import { deploymentAddresses } from "./deployment_addresses";
+import { LoanTask, publicClient } from "./utils";
+
+// Display metadata for a token that loans are denominated in
+export type TokenInfo = {
+  address: `0x${string}`;
+  symbol: string;
+  decimals: number;
+};
+
+// The market the operator was originally written for. The mock is treated as an
+// 18 decimal token, as amounts were always formatted with formatEther.
+export const DEFAULT_LOAN_TOKEN: TokenInfo = {
+  address: deploymentAddresses.hook.token1 as `0x${string}`,
+  symbol: "USDC",
+  decimals: 18,
+};
+
+// Known tokens by lowercased address, seeded from the TOKENS setting
+const tokenRegistry = new Map<string, TokenInfo>(
+  [DEFAULT_LOAN_TOKEN, ...operatorConfig.tokens].map(token => [tokenKey(token.address), token])
+);
+
+// Addresses are compared case-insensitively so checksummed and plain forms agree
+export function tokenKey(address: `0x${string}`): string {
+  return address.toLowerCase();
+}
+
+// Metadata for a token, read from its ERC20 contract the first time an unknown
+// token is seen. Tokens that do not answer are shown by address with 18 decimals.
+export async function resolveTokenInfo(address: `0x${string}`): Promise<TokenInfo> {
+  const known = tokenRegistry.get(tokenKey(address));
+  if (known) return known;
+
+  let token: TokenInfo;
+  try {
+    const [symbol, decimals] = await Promise.all([
+      publicClient.readContract({ address, abi: erc20Abi, functionName: "symbol" }),
+      publicClient.readContract({ address, abi: erc20Abi, functionName: "decimals" }),
+    ]);
+    token = { address, symbol, decimals };
+  } catch (error) {
+    console.warn(`Could not read token metadata for ${address}, assuming 18 decimals`);
+    token = { address, symbol: address, decimals: 18 };
+  }
+
+  tokenRegistry.set(tokenKey(address), token);
+  return token;
+}
+
+// An amount in the token's own units, e.g. "1500.5 USDC"
+export function formatTokenAmount(amount: bigint, token: TokenInfo): string {
+  return `${formatUnits(amount, token.decimals)} ${token.symbol}`;
+}
+
+// Split a batch into one book per loan token. Orders for different tokens are
+// separate markets and must never be matched against each other.
+export function groupByToken(tasks: LoanTask[]): Map<string, LoanTask[]> {
+  const books = new Map<string, LoanTask[]>();
+  for (const task of tasks) {
+    const key = tokenKey(task.orderData.token);
+    if (!books.has(key)) {
+      books.set(key, []);
+    }
+    books.get(key)!.push(task);
+  }
+  return books;
+}
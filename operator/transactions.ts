@@ -0,0 +1,286 @@
+import * as fs from "fs";
+import { TransactionReceipt } from "viem";
+import { operatorConfig } from "./config";
+import { account, publicClient, walletClient } from "./utils";
+
+const BIPS = BigInt(10000);
+const TRANSFER_GAS = BigInt(21000);
+
+// What a transaction does, independent of the nonce and fees it is sent with
+export type TransactionRequest = {
+  to: `0x${string}`;
+  data: `0x${string}`;
+  label: string;          // shown in logs, e.g. "respondToLoanBatch 12"
+};
+
+// A transaction this operator sent that is not mined yet. Every broadcast for
+// the nonce is remembered, as whichever one the network picks may be mined.
+export type PendingTransaction = TransactionRequest & {
+  nonce: number;
+  hashes: `0x${string}`[];
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  sentAt: number;         // milliseconds since the epoch of the latest broadcast
+};
+
+// Pending transactions by nonce, mirrored to operatorConfig.pendingTransactionsFile
+const pending = new Map<number, PendingTransaction>();
+
+// Send a transaction at the next free nonce and start tracking it. Returns the nonce.
+export async function sendTransaction(request: TransactionRequest): Promise<number> {
+  const nonce = await nextNonce();
+  const fees = await publicClient.estimateFeesPerGas();
+  const gas = await estimateGas(request);
+
+  await broadcast({
+    ...request,
+    nonce,
+    hashes: [],
+    gas,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+    sentAt: 0,
+  });
+  return nonce;
+}
+
+// Send a different transaction in place of a pending one, at bumped fees so
+// nodes accept it as a replacement
+export async function replaceTransaction(nonce: number, request: TransactionRequest): Promise<void> {
+  const previous = trackedTransaction(nonce);
+  await broadcast({
+    ...previous,
+    ...request,
+    gas: await estimateGas(request),
+    ...(await bumpedFees(previous)),
+  });
+}
+
+// Give up on a pending transaction by replacing it with an empty transfer to
+// ourselves, which frees the nonce for the transactions behind it
+export async function cancelTransaction(nonce: number): Promise<void> {
+  const previous = trackedTransaction(nonce);
+  await broadcast({
+    ...previous,
+    to: account.address,
+    data: "0x",
+    label: `cancel ${previous.label}`,
+    gas: TRANSFER_GAS,
+    ...(await bumpedFees(previous)),
+  });
+}
+
+// Wait until the transaction at `nonce` is mined and return its receipt. A
+// transaction still pending after operatorConfig.txReplaceTimeoutSeconds is
+// rebroadcast with bumped fees, up to operatorConfig.txMaxFeePerGas. If `isObsolete` says the transaction is no
+// longer wanted, null is returned with the nonce still tracked, for the caller
+// to replace or cancel.
+export async function waitForTransaction(
+  nonce: number,
+  isObsolete?: () => Promise<boolean>
+): Promise<TransactionReceipt | null> {
+  const timeoutMs = Number(operatorConfig.txReplaceTimeoutSeconds) * 1000;
+
+  for (;;) {
+    const transaction = trackedTransaction(nonce);
+    const receipt = await minedReceipt(transaction);
+    if (receipt) return receipt;
+
+    if (isObsolete && await isObsolete()) {
+      // Our own transaction being mined since the check above can be what made
+      // it look obsolete, so it is checked again before giving up on it
+      return await minedReceipt(transaction);
+    }
+
+    if (Date.now() - transaction.sentAt >= timeoutMs) {
+      const fees = await bumpedFees(transaction);
+      const cap = operatorConfig.txMaxFeePerGas;
+      if (cap !== null && fees.maxFeePerGas > cap) {
+        // Wait out another timeout at the current fees rather than overpay
+        console.warn(`${transaction.label} still pending at nonce ${nonce}, fees are at the configured maximum`);
+        pending.set(nonce, { ...transaction, sentAt: Date.now() });
+      } else {
+        console.warn(`${transaction.label} still pending at nonce ${nonce}, rebroadcasting with higher fees`);
+        await broadcast({ ...transaction, ...fees });
+      }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, publicClient.pollingInterval));
+  }
+}
+
+// Pick up the transactions a previous run left pending, drop those that have
+// since been mined, and keep the rest moving with fee bumps in the background.
+// One that `isObsolete` says is no longer wanted is cancelled instead.
+// `onMined` gets the receipt of whatever is mined at each recovered nonce.
+export async function recoverPendingTransactions(
+  isObsolete: (transaction: PendingTransaction) => Promise<boolean> = async () => false,
+  onMined: (transaction: PendingTransaction, receipt: TransactionReceipt) => void = () => {}
+): Promise<PendingTransaction[]> {
+  if (!fs.existsSync(operatorConfig.pendingTransactionsFile)) return [];
+
+  const minedNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: "latest" });
+  const recovered = load().filter(transaction => transaction.nonce >= minedNonce);
+  pending.clear();
+  for (const transaction of recovered) {
+    pending.set(transaction.nonce, transaction);
+  }
+  persist();
+
+  for (const transaction of recovered) {
+    console.log(`Recovered pending ${transaction.label} at nonce ${transaction.nonce}`);
+    resumeTransaction(transaction, isObsolete)
+      .then(receipt => {
+        console.log(`Recovered ${transaction.label} mined with status ${receipt.status}`);
+        onMined(transaction, receipt);
+      })
+      .catch(error => console.error(`Recovered ${transaction.label} failed:`, error));
+  }
+  return recovered;
+}
+
+export function hasPendingTransaction(nonce: number): boolean {
+  return pending.has(nonce);
+}
+
+export function pendingTransactions(): PendingTransaction[] {
+  return [...pending.values()].sort((a, b) => a.nonce - b.nonce);
+}
+
+// Wait for a recovered transaction, replacing it with a cancellation if it
+// turns out to be obsolete. The receipt is the original's if it was mined
+// before the cancellation could replace it.
+async function resumeTransaction(
+  transaction: PendingTransaction,
+  isObsolete: (transaction: PendingTransaction) => Promise<boolean>
+): Promise<TransactionReceipt> {
+  const receipt = await waitForTransaction(transaction.nonce, () => isObsolete(transaction));
+  if (receipt) return receipt;
+
+  console.warn(`Recovered ${transaction.label} at nonce ${transaction.nonce} is obsolete, cancelling it`);
+  await cancelTransaction(transaction.nonce)
+    .catch(error => console.error(`Error cancelling ${transaction.label} at nonce ${transaction.nonce}:`, error));
+  return (await waitForTransaction(transaction.nonce))!;
+}
+
+// The receipt of whichever broadcast for the transaction was mined, or null if
+// its nonce is still free. The nonce is forgotten once it is used.
+async function minedReceipt(transaction: PendingTransaction): Promise<TransactionReceipt | null> {
+  for (const hash of transaction.hashes) {
+    const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null);
+    if (receipt) {
+      forget(transaction.nonce);
+      return receipt;
+    }
+  }
+
+  // The nonce was used. One of our broadcasts may have been mined after its
+  // receipt was asked for, so they are all checked once more; if none was,
+  // another process signing with the same key took the nonce.
+  const minedNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: "latest" });
+  if (minedNonce > transaction.nonce) {
+    for (const hash of transaction.hashes) {
+      const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null);
+      if (receipt) {
+        forget(transaction.nonce);
+        return receipt;
+      }
+    }
+    forget(transaction.nonce);
+    throw new Error(
+      `Nonce ${transaction.nonce} (${transaction.label}) was used by a transaction this operator did not send`
+    );
+  }
+  return null;
+}
+
+// The chain's next nonce, or the one after our own pending transactions if the
+// node has not seen all of them yet
+async function nextNonce(): Promise<number> {
+  const chainNonce = await publicClient.getTransactionCount({ address: account.address, blockTag: "pending" });
+  const localNonce = Math.max(-1, ...pending.keys()) + 1;
+  return Math.max(chainNonce, localNonce);
+}
+
+async function estimateGas(request: TransactionRequest): Promise<bigint> {
+  return publicClient.estimateGas({ account, to: request.to, data: request.data });
+}
+
+// Fees raised by at least the configured bump, and never below what the
+// network currently asks, so a replacement is accepted and can be mined
+async function bumpedFees(
+  transaction: PendingTransaction
+): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+  const current = await publicClient.estimateFeesPerGas();
+  const bump = (fee: bigint) => (fee * (BIPS + operatorConfig.txFeeBumpBips) + BIPS - BigInt(1)) / BIPS;
+
+  const maxPriorityFeePerGas = [bump(transaction.maxPriorityFeePerGas), current.maxPriorityFeePerGas]
+    .reduce((a, b) => (a > b ? a : b));
+  const maxFeePerGas = [bump(transaction.maxFeePerGas), current.maxFeePerGas, maxPriorityFeePerGas]
+    .reduce((a, b) => (a > b ? a : b));
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+async function broadcast(transaction: PendingTransaction): Promise<void> {
+  const hash = await walletClient.sendTransaction({
+    account,
+    chain: walletClient.chain,
+    to: transaction.to,
+    data: transaction.data,
+    nonce: transaction.nonce,
+    gas: transaction.gas,
+    maxFeePerGas: transaction.maxFeePerGas,
+    maxPriorityFeePerGas: transaction.maxPriorityFeePerGas,
+  });
+
+  pending.set(transaction.nonce, {
+    ...transaction,
+    hashes: [...transaction.hashes, hash],
+    sentAt: Date.now(),
+  });
+  persist();
+  console.log(`Sent ${transaction.label} at nonce ${transaction.nonce}: ${hash}`);
+}
+
+function trackedTransaction(nonce: number): PendingTransaction {
+  const transaction = pending.get(nonce);
+  if (!transaction) {
+    throw new Error(`No pending transaction at nonce ${nonce}`);
+  }
+  return transaction;
+}
+
+function forget(nonce: number) {
+  pending.delete(nonce);
+  persist();
+}
+
+// Written to a temporary file and renamed, so a crash never leaves half a file
+function persist() {
+  const file = operatorConfig.pendingTransactionsFile;
+  const json = JSON.stringify(
+    pendingTransactions(),
+    (_, value) => (typeof value === "bigint" ? value.toString() : value),
+    2
+  );
+  fs.writeFileSync(`${file}.tmp`, json);
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+// A pending transaction as persist() writes it, with its bigints as strings
+type StoredTransaction = Omit<PendingTransaction, "gas" | "maxFeePerGas" | "maxPriorityFeePerGas"> & {
+  gas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+};
+
+function load(): PendingTransaction[] {
+  const stored = JSON.parse(fs.readFileSync(operatorConfig.pendingTransactionsFile, "utf8")) as StoredTransaction[];
+  return stored.map(transaction => ({
+    ...transaction,
+    gas: BigInt(transaction.gas),
+    maxFeePerGas: BigInt(transaction.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(transaction.maxPriorityFeePerGas),
+  }));
+}
@@ -23,10 +23,11 @@ import bigDecimal from "js-big-decimal";
 export type LoanTask = {
   // Core loan parameters
   isLender: boolean;              // replaces zeroForOne - true for lenders, false for borrowers
-  principalAmount: bigint;        // replaces amountSpecified - amount of USDC
+  principalAmount: bigint;        // replaces amountSpecified - amount of the loan token
   interestRateBips: bigint;       // replaces sqrtPriceLimitX96 - interest rate in basis points
   maturityTimestamp: bigint;      // new - when the loan matures
   collateralRequired?: bigint;    // new - ETH collateral for borrower orders
+  collateralRatioAtPrice?: bigint; // borrowers only - collateral value over principal in bips, set once priced
   
   // Order metadata
   sender: `0x${string}`;          // address of the order creator
@@ -42,13 +43,14 @@ export type LoanTask = {
 
 // New type for loan order data structure
 export type LoanOrderData = {
-  token: `0x${string}`;           // USDC address
+  token: `0x${string}`;           // loan token address, e.g. USDC
   minPrincipal: bigint;           // minimum amount willing to lend/borrow
   maxPrincipal: bigint;           // maximum amount willing to lend/borrow
   minRate: bigint;                // minimum acceptable rate (for lenders)
   maxRate: bigint;                // maximum acceptable rate (for borrowers)
   maturityOptions: bigint[];      // acceptable maturity timestamps
   collateralRatio: bigint;        // required collateral ratio (e.g., 150%)
+  minCollateralRatio: bigint;     // lenders only - lowest borrower collateralRatioAtPrice accepted, 0 for any
   expiry: bigint;                 // when this order expires
   nonce: bigint;                  // for signature replay protection
 };
@@ -62,6 +64,9 @@ export enum LoanFeasibility {
   PARTIAL_BOTH = "Both sides partially matched",
   NO_RATE_OVERLAP = "No overlap between lender min and borrower max rates",
   MATURITY_MISMATCH = "No compatible maturity dates",
+  PRINCIPAL_BOUNDS = "Fill would fall outside an order's min/max principal",
+  INSUFFICIENT_COLLATERAL = "Insufficient collateral for the borrowed principal",
+  LENDER_COLLATERAL_RATIO = "Borrower collateral ratio below the lender's minimum",
 }
 
 // Updated result type for loan matching
@@ -84,6 +89,58 @@ export type LoanMatchingResult = {
   feasibilityType: LoanFeasibility;
   rateSpread: bigDecimal;         // difference between avg lender and borrower rates
   matchingEfficiency: bigDecimal;  // percentage of orders matched
+
+  // Call auction results (only set when a single clearing rate is used)
+  clearingRate?: bigint;          // uniform rate every crossing order fills at
+  marginalOrders?: LoanTask[];    // orders whose limit rates bound the clearing rate
+
+  // Volume-weighted rate each order received across its transfers, keyed by taskId
+  lenderRates?: Record<string, bigDecimal>;
+  borrowerRates?: Record<string, bigDecimal>;
+  rangePositions?: Record<string, bigDecimal>; // 0 at an order's minRate, 1 at its maxRate
+
+  // Policy used to place rates between lender asks and borrower bids
+  surplusPolicy?: SurplusPolicy;
+};
+
+// Who keeps the spread between a lender's ask and a borrower's bid
+export enum SurplusPolicyKind {
+  BORROWERS = "borrowers",           // rate set at the lender's ask
+  LENDERS = "lenders",               // rate set at the borrower's bid
+  RATIO = "ratio",                   // fixed share of the spread goes to lenders
+  PROPORTIONAL = "proportional",     // each side's share follows its order size
+}
+
+export type SurplusPolicy =
+  | { kind: SurplusPolicyKind.BORROWERS }
+  | { kind: SurplusPolicyKind.LENDERS }
+  | { kind: SurplusPolicyKind.RATIO; lenderShareBips: bigint }
+  | { kind: SurplusPolicyKind.PROPORTIONAL };
+
+// Settings shared by every matching strategy
+export type MatchingOptions = {
+  surplusPolicy: SurplusPolicy;
+  // Loan token base units one ETH of collateral is worth. Borrower collateral
+  // is only checked when a price is given.
+  collateralPrice?: bigint;
+};
+
+// How transfer rates are set within a matching
+export enum PricingMode {
+  UNIFORM = "uniform",               // every transfer uses the matching's effective rate
+  DISCRIMINATORY = "discriminatory", // pay-as-bid, each lender/borrower pair priced on its own
+}
+
+// A single loan between one lender and one borrower
+export type LoanTransfer = {
+  lender: `0x${string}`;
+  borrower: `0x${string}`;
+  token: `0x${string}`;
+  amount: bigint;
+  rate: bigint;
+  maturityTimestamp: bigint;
+  lenderTaskId: number;
+  borrowerTaskId: number;
 };
 
 // Updated matching type for loan orders
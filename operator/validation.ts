@@ -0,0 +1,110 @@
+import { LoanTask, LoanTransfer } from "./utils";
+
+// Revert strings of DebtOrderServiceManager.validateMatches, plus the
+// cumulative checks the operator adds on top of it
+export enum MatchRevert {
+  RATE_BELOW_LENDER_MINIMUM = "Rate below lender minimum",
+  MATURITY_MISMATCH = "Maturity mismatch",
+  EXCEEDS_LENDER_MAX = "Exceeds lender max",
+  BELOW_LENDER_MIN = "Below lender min",
+  RATE_ABOVE_BORROWER_MAXIMUM = "Rate above borrower maximum",
+  EXCEEDS_BORROWER_MAX = "Exceeds borrower max",
+  BELOW_BORROWER_MIN = "Below borrower min",
+  INVALID_MATCH_PARTICIPANTS = "Invalid match participants",
+  // Not checked on-chain: validateMatches looks at each match on its own
+  EXCEEDS_LENDER_OFFER = "Exceeds lender offer across matches",
+  EXCEEDS_BORROWER_REQUEST = "Exceeds borrower request across matches",
+}
+
+export type MatchRejection = {
+  transfer: LoanTransfer;
+  reason: MatchRevert;
+};
+
+// validateMatches for a single match, rule for rule and in the same order. Every
+// submitted task from the lender's or borrower's address is checked, as the
+// contract matches participants by sender rather than by task. Returns the
+// revert string the contract would fail with, or null if it would pass.
+export function validateMatch(tasks: LoanTask[], transfer: LoanTransfer): MatchRevert | null {
+  let foundLender = false;
+  let foundBorrower = false;
+
+  for (const task of tasks) {
+    if (task.sender === transfer.lender && task.isLender) {
+      if (transfer.rate < task.orderData.minRate) return MatchRevert.RATE_BELOW_LENDER_MINIMUM;
+      if (transfer.maturityTimestamp !== task.maturityTimestamp) return MatchRevert.MATURITY_MISMATCH;
+      if (transfer.amount > task.orderData.maxPrincipal) return MatchRevert.EXCEEDS_LENDER_MAX;
+      if (transfer.amount < task.orderData.minPrincipal) return MatchRevert.BELOW_LENDER_MIN;
+      foundLender = true;
+    }
+
+    if (task.sender === transfer.borrower && !task.isLender) {
+      if (transfer.rate > task.orderData.maxRate) return MatchRevert.RATE_ABOVE_BORROWER_MAXIMUM;
+      if (transfer.maturityTimestamp !== task.maturityTimestamp) return MatchRevert.MATURITY_MISMATCH;
+      if (transfer.amount > task.orderData.maxPrincipal) return MatchRevert.EXCEEDS_BORROWER_MAX;
+      if (transfer.amount < task.orderData.minPrincipal) return MatchRevert.BELOW_BORROWER_MIN;
+      foundBorrower = true;
+    }
+  }
+
+  return foundLender && foundBorrower ? null : MatchRevert.INVALID_MATCH_PARTICIPANTS;
+}
+
+// Prune a batch down to the matches that pass validateMatches and keep every
+// order within its principal across all of its matches. Tasks left without a
+// match are dropped too, so they are not marked responded for nothing, and the
+// remaining matches are checked again without them until nothing changes.
+// `tasks` must be the tasks as created on-chain.
+export function validateLoanBatch(
+  tasks: LoanTask[],
+  transfers: LoanTransfer[]
+): { tasks: LoanTask[]; transfers: LoanTransfer[]; rejections: MatchRejection[] } {
+  const rejections: MatchRejection[] = [];
+  let keptTasks = tasks;
+  let kept = transfers;
+
+  for (;;) {
+    const tasksById = new Map(keptTasks.map(task => [task.taskId, task]));
+    const allocated = new Map<number, bigint>();
+    const passed: LoanTransfer[] = [];
+
+    for (const transfer of kept) {
+      const reason = validateMatch(keptTasks, transfer) ??
+        cumulativeRevert(tasksById, allocated, transfer);
+      if (reason !== null) {
+        rejections.push({ transfer, reason });
+        continue;
+      }
+      allocated.set(transfer.lenderTaskId, (allocated.get(transfer.lenderTaskId) ?? BigInt(0)) + transfer.amount);
+      allocated.set(transfer.borrowerTaskId, (allocated.get(transfer.borrowerTaskId) ?? BigInt(0)) + transfer.amount);
+      passed.push(transfer);
+    }
+
+    const participating = keptTasks.filter(task => allocated.has(task.taskId));
+    const stable = participating.length === keptTasks.length && passed.length === kept.length;
+    keptTasks = participating;
+    kept = passed;
+    if (stable) break;
+  }
+
+  return { tasks: keptTasks, transfers: kept, rejections };
+}
+
+// Whether adding the transfer would take either order past its principal
+function cumulativeRevert(
+  tasksById: Map<number, LoanTask>,
+  allocated: Map<number, bigint>,
+  transfer: LoanTransfer
+): MatchRevert | null {
+  const lender = tasksById.get(transfer.lenderTaskId);
+  const borrower = tasksById.get(transfer.borrowerTaskId);
+  if (!lender || !borrower) return MatchRevert.INVALID_MATCH_PARTICIPANTS;
+
+  const lent = (allocated.get(lender.taskId) ?? BigInt(0)) + transfer.amount;
+  if (lent > lender.principalAmount) return MatchRevert.EXCEEDS_LENDER_OFFER;
+
+  const borrowed = (allocated.get(borrower.taskId) ?? BigInt(0)) + transfer.amount;
+  if (borrowed > borrower.principalAmount) return MatchRevert.EXCEEDS_BORROWER_REQUEST;
+
+  return null;
+}